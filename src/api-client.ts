@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import type {
   AuthTokens,
   User,
@@ -10,14 +11,348 @@ import type {
   UpdateResumeDto,
   UpdateResumeDtoV5,
   SectionName,
+  ItemSectionName,
+  SectionItemMap,
+  SectionItemUpdates,
   ResumeData,
+  ResumeSection,
+  ResumeSections,
+  ResumeMetadata,
+  BasicsUpdates,
   ResumeV5,
+  CustomSectionItem,
+  ItemOrder,
+  LayoutOrder,
+  ResumeChangePreview,
 } from "./types.js";
+import { sectionNames, validateResumeData, validateSection } from "./schemas.js";
+import { reorderItems, reorderLayout } from "./ordering.js";
+import { diffValues, isEqualValue, pathsOverlap } from "./diff.js";
+import type { ResumeHistory, ResumeRevision } from "./history.js";
 
 // This API client is designed for Reactive Resume v5 only.
 // v5 uses OpenAPI endpoints with API key authentication.
 // API keys can be created in Settings > API Keys in the Reactive Resume dashboard.
 
+// Set while running inside preview(): writes append here instead of hitting the server
+const previewContext = new AsyncLocalStorage<ResumeChangePreview[]>();
+
+// Set while running inside collectWarnings(): problems after a successful write append here
+const warningContext = new AsyncLocalStorage<string[]>();
+
+const EMPTY_WEBSITE = { label: "", url: "" };
+
+// Default v5 item for each section, minus the id. Also the source of truth for
+// which fields a section item may carry.
+const SECTION_ITEM_DEFAULTS: {
+  [S in ItemSectionName]: Omit<SectionItemMap[S], "id">;
+} = {
+  experience: { hidden: false, company: "", position: "", location: "", period: "", website: EMPTY_WEBSITE, description: "" },
+  education: { hidden: false, school: "", degree: "", area: "", grade: "", location: "", period: "", website: EMPTY_WEBSITE, description: "" },
+  skills: { hidden: false, icon: "", name: "", proficiency: "", level: 0, keywords: [] },
+  projects: { hidden: false, name: "", period: "", website: EMPTY_WEBSITE, description: "" },
+  certifications: { hidden: false, title: "", issuer: "", date: "", website: EMPTY_WEBSITE, description: "" },
+  languages: { hidden: false, language: "", fluency: "", level: 0 },
+  awards: { hidden: false, title: "", awarder: "", date: "", website: EMPTY_WEBSITE, description: "" },
+  publications: { hidden: false, title: "", publisher: "", date: "", website: EMPTY_WEBSITE, description: "" },
+  volunteer: { hidden: false, organization: "", location: "", period: "", website: EMPTY_WEBSITE, description: "" },
+  interests: { hidden: false, icon: "", name: "", keywords: [] },
+  references: { hidden: false, name: "", position: "", phone: "", website: EMPTY_WEBSITE, description: "" },
+  profiles: { hidden: false, icon: "", network: "", username: "", website: EMPTY_WEBSITE },
+};
+
+const CUSTOM_ITEM_DEFAULTS: Omit<CustomSectionItem, "id"> = {
+  hidden: false,
+  name: "",
+  location: "",
+  period: "",
+  website: EMPTY_WEBSITE,
+  description: "",
+  keywords: [],
+};
+
+// Pre-v5 field names that still show up in agent input, mapped to their v5 names.
+// "visible" and "url" are handled separately since their values change shape too.
+const LEGACY_FIELD_ALIASES: Record<ItemSectionName, Record<string, string>> = {
+  experience: { date: "period", summary: "description" },
+  education: { institution: "school", studyType: "degree", score: "grade", date: "period", summary: "description" },
+  skills: { description: "proficiency" },
+  projects: { date: "period", summary: "description" },
+  certifications: { name: "title", summary: "description" },
+  languages: { name: "language", description: "fluency" },
+  awards: { summary: "description" },
+  publications: { name: "title", summary: "description" },
+  volunteer: { date: "period", summary: "description" },
+  interests: {},
+  references: { summary: "description" },
+  profiles: {},
+};
+
+const CUSTOM_ITEM_ALIASES: Record<string, string> = { date: "period", summary: "description" };
+
+function toWebsite(value: unknown): unknown {
+  if (typeof value === "string") {
+    return { label: "", url: value };
+  }
+  if (value && typeof value === "object") {
+    const link = value as { label?: unknown; url?: unknown; href?: unknown };
+    return { label: link.label ?? "", url: link.url ?? link.href ?? "" };
+  }
+  return value;
+}
+
+function mapItemUpdates(
+  label: string,
+  defaults: object,
+  aliases: Record<string, string>,
+  updates: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const unknownFields: string[] = [];
+  // Pairs of fields naming the same thing, e.g. "visible" and "hidden"
+  const conflicts: string[] = [];
+
+  for (const [key, value] of Object.entries(updates)) {
+    if (key === "visible") {
+      if ("hidden" in updates) conflicts.push("visible/hidden");
+      else result.hidden = !value;
+    } else if (key === "url" && "website" in defaults) {
+      if ("website" in updates) conflicts.push("url/website");
+      else result.website = toWebsite(value);
+    } else if (key === "website") {
+      result.website = toWebsite(value);
+    } else if (key in defaults) {
+      result[key] = value;
+    } else if (key in aliases) {
+      if (aliases[key] in updates) conflicts.push(`${key}/${aliases[key]}`);
+      else result[aliases[key]] = value;
+    } else {
+      unknownFields.push(key);
+    }
+  }
+
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Conflicting field(s) for ${label} items: ${conflicts.join(", ")}. Give only one field of each pair.`
+    );
+  }
+  if (unknownFields.length > 0) {
+    throw new Error(
+      `Unknown field(s) for ${label} items: ${unknownFields.join(", ")}. ` +
+        `Valid fields: ${Object.keys(defaults).join(", ")}`
+    );
+  }
+  return result;
+}
+
+// Drop the fields of a partial update that are not set, so they keep their stored values.
+// An update that sets nothing is an error rather than a write that changes nothing.
+function definedFields<T extends object>(updates: T, what: string): Partial<T> {
+  const result = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+  if (Object.keys(result).length === 0) {
+    throw new Error(`No ${what} given to update`);
+  }
+  return result as Partial<T>;
+}
+
+function assertItemExists(items: Array<{ id: string }>, itemId: string, where: string): void {
+  if (!items.some((item) => item.id === itemId)) {
+    throw new Error(`Item ${itemId} not found in ${where}`);
+  }
+}
+
+// Layout entries reference custom sections as "custom.<id>"
+export function customSectionLayoutId(sectionId: string): string {
+  return `custom.${sectionId}`;
+}
+
+// Layout ids must name a built-in section or an existing custom section, each at most once
+function assertValidLayout(data: ResumeData, layout: ResumeMetadata["layout"]): void {
+  const known = new Set<string>([
+    ...sectionNames,
+    ...Object.keys(data.sections.custom).map(customSectionLayoutId),
+  ]);
+  const seen = new Set<string>();
+  const unknownIds: string[] = [];
+  const duplicateIds: string[] = [];
+
+  for (const id of layout.flat(2)) {
+    if (!known.has(id)) unknownIds.push(id);
+    else if (seen.has(id)) duplicateIds.push(id);
+    seen.add(id);
+  }
+
+  if (unknownIds.length > 0) {
+    throw new Error(
+      `Unknown section id(s) in layout: ${unknownIds.join(", ")}. Valid ids: ${[...known].join(", ")}`
+    );
+  }
+  if (duplicateIds.length > 0) {
+    throw new Error(`Section id(s) appear more than once in layout: ${duplicateIds.join(", ")}`);
+  }
+}
+
+function findCustomSection(
+  sections: ResumeSections,
+  sectionId: string
+): ResumeSection<CustomSectionItem> {
+  const section = sections.custom[sectionId];
+  if (!section) {
+    throw new Error(`Custom section ${sectionId} not found`);
+  }
+  return section;
+}
+
+export function findLayoutPosition(
+  layout: ResumeMetadata["layout"],
+  layoutId: string
+): { page: number; column: number } | null {
+  for (let page = 0; page < layout.length; page++) {
+    const column = layout[page].findIndex((ids) => ids.includes(layoutId));
+    if (column !== -1) return { page, column };
+  }
+  return null;
+}
+
+export type ResumeChangeListener = (resumeId: string, change: "created" | "updated" | "deleted") => void;
+
+// Outcome of probing a client's credentials against its instance
+export type AuthCheck =
+  | { status: "none" }
+  | { status: "authenticated"; method: "api_key" | "session"; user: User | null }
+  | { status: "failed"; method: "api_key" | "session"; message: string };
+
+export function normalizeBaseUrl(url: string): string {
+  return url.replace(/\/$/, "");
+}
+
+// Raised when a write would overwrite changes made elsewhere (e.g. in the web UI)
+// since this client last saw the resume
+export class ResumeConflictError extends Error {
+  readonly resumeId: string;
+  // Paths changed both remotely and by the attempted write
+  readonly fields: string[];
+  readonly baseUpdatedAt: string;
+  readonly currentUpdatedAt: string;
+
+  constructor(resumeId: string, fields: string[], baseUpdatedAt: string, currentUpdatedAt: string) {
+    super(
+      `Resume ${resumeId} was changed elsewhere since it was last read` +
+        (baseUpdatedAt || currentUpdatedAt ? ` (based on ${baseUpdatedAt || "unknown"}, now ${currentUpdatedAt || "unknown"})` : "") +
+        `. Conflicting fields:\n${fields.map((field) => `  - ${field}`).join("\n")}\n` +
+        "Re-read the resume and retry the change."
+    );
+    this.name = "ResumeConflictError";
+    this.resumeId = resumeId;
+    this.fields = fields;
+    this.baseUpdatedAt = baseUpdatedAt;
+    this.currentUpdatedAt = currentUpdatedAt;
+  }
+}
+
+// A response with an error status. For JSON error bodies the message carries the
+// server's own message instead of the raw body.
+export class ApiRequestError extends Error {
+  readonly status: number;
+  readonly body: string;
+  readonly attempts: number;
+
+  constructor(status: number, statusText: string, body: string, attempts: number) {
+    super(
+      `API request failed: ${status} ${statusText} - ${errorDetail(body)}` +
+        (attempts > 1 ? ` (after ${attempts} attempts)` : "")
+    );
+    this.name = "ApiRequestError";
+    this.status = status;
+    this.body = body;
+    this.attempts = attempts;
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`);
+    this.name = "RequestTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+function errorDetail(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as { message?: unknown; error?: { message?: unknown } | unknown };
+    const message =
+      parsed.message ?? (parsed.error as { message?: unknown } | undefined)?.message ?? parsed.error;
+    if (typeof message === "string" && message) return message;
+  } catch {
+    // Not JSON; fall through to the raw body
+  }
+  return body.length > 500 ? `${body.slice(0, 500)}...` : body;
+}
+
+export interface RequestPolicy {
+  // Per-attempt timeout
+  timeoutMs: number;
+  // Retries per request after the first attempt
+  maxRetries: number;
+  // Backoff before retry n is a random delay up to baseDelayMs * 2^(n-1), capped at maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A longer Retry-After than this fails the request instead of waiting
+  maxRetryAfterMs: number;
+  // Retries per minute across all requests of a client, so an instance that is down
+  // is not hammered by every call of an agent run
+  retryBudget: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30_000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  maxRetryAfterMs: 60_000,
+  retryBudget: 20,
+};
+
+// Rendering a PDF can take much longer than other calls
+const PRINT_TIMEOUT_MS = 120_000;
+
+// Resumes a client remembers for conflict detection; older ones are written unchecked
+const LAST_SEEN_LIMIT = 100;
+
+// Transient failures, typically from a proxy or CDN in front of the instance
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+// Methods that can be repeated when it is unknown whether the first attempt reached the server
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+interface RequestOptions extends RequestInit {
+  timeoutMs?: number;
+  // Override the method-based guess, e.g. for a POST that only reads
+  idempotent?: boolean;
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// fetch() reports network failures as "fetch failed", with the reason in the cause
+function describeFetchError(error: unknown): string {
+  const cause = error instanceof Error ? error.cause : undefined;
+  if (cause instanceof Error) return cause.message;
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 export class RxResumeApiClient {
   private baseUrl: string;
   private apiKey: string | null = null;
@@ -25,9 +360,31 @@ export class RxResumeApiClient {
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
   private cookies: string[] = [];
+  // Set once the client holds credentials that belong to this instance only, such as a
+  // profile's API key; stays set for the client's lifetime
+  private credentialsPinned = false;
+  private refetchAfterWrite = false;
+  // Last version of each resume this client read or wrote: the base writes are checked against.
+  // Holds at most LAST_SEEN_LIMIT resumes, least recently used first.
+  private lastSeen = new Map<string, Resume>();
+  // Tail of the pending write chain per resume, so concurrent writes apply in turn
+  private writeQueue = new Map<string, Promise<unknown>>();
+  private history: ResumeHistory | null = null;
+  private changeListener: ResumeChangeListener | null = null;
+  private policy: RequestPolicy = DEFAULT_REQUEST_POLICY;
+  // Start times of recent retries, for the retry budget
+  private retryTimes: number[] = [];
 
   constructor(baseUrl: string) {
-    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.baseUrl = normalizeBaseUrl(baseUrl);
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  setRequestPolicy(policy: Partial<RequestPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
   }
 
   setApiKey(apiKey: string): void {
@@ -57,14 +414,105 @@ export class RxResumeApiClient {
     return this.apiKey !== null || this.accessToken !== null;
   }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
+  // Keep the current credentials from being copied to clients of other instances
+  pinCredentials(): void {
+    this.credentialsPinned = true;
+  }
+
+  hasPinnedCredentials(): boolean {
+    return this.credentialsPinned;
+  }
+
+  // Take over another client's API key and bearer tokens. Login cookies are left
+  // behind: they belong to the other client's host.
+  copyCredentialsFrom(other: RxResumeApiClient): void {
+    if (other.credentialsPinned) {
+      throw new Error(`The credentials for ${other.baseUrl} may only be used on that instance`);
+    }
+    this.apiKey = other.apiKey;
+    this.accessToken = other.accessToken;
+    this.refreshToken = other.refreshToken;
+  }
+
+  // API keys carry no session, so they are checked by listing resumes; a login is
+  // checked by fetching the signed-in user
+  async checkAuth(): Promise<AuthCheck> {
+    const method = this.apiKey ? "api_key" : this.accessToken || this.cookies.length > 0 ? "session" : null;
+    if (!method) return { status: "none" };
+    try {
+      if (method === "api_key") {
+        await this.request("/api/openapi/resume/list?sort=lastUpdatedAt", { method: "GET" });
+        return { status: "authenticated", method, user: null };
+      }
+      const session = await this.request<{ user: User } | null>("/api/auth/get-session");
+      if (!session?.user) {
+        return { status: "failed", method, message: "No active session" };
+      }
+      return { status: "authenticated", method, user: session.user };
+    } catch (error) {
+      return { status: "failed", method, message: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  // Build a complete v5 item for a section, filling unspecified fields with defaults
+  static buildSectionItem<S extends ItemSectionName>(
+    sectionName: S,
+    id: string,
+    fields: SectionItemUpdates<S>
+  ): SectionItemMap[S] {
+    return {
+      ...structuredClone(SECTION_ITEM_DEFAULTS[sectionName]),
+      ...fields,
+      id,
+    } as SectionItemMap[S];
+  }
+
+  // Translate loosely-typed item updates (e.g. parsed from agent JSON) into v5 fields.
+  // Legacy field names are renamed; anything the section does not have is rejected
+  // rather than written to fields the server ignores.
+  static toSectionItemUpdates<S extends ItemSectionName>(
+    sectionName: S,
+    updates: Record<string, unknown>
+  ): SectionItemUpdates<S> {
+    return mapItemUpdates(
+      sectionName,
+      SECTION_ITEM_DEFAULTS[sectionName],
+      LEGACY_FIELD_ALIASES[sectionName],
+      updates
+    ) as SectionItemUpdates<S>;
+  }
+
+  static buildCustomSectionItem(
+    id: string,
+    fields: Partial<Omit<CustomSectionItem, "id">>
+  ): CustomSectionItem {
+    return { ...structuredClone(CUSTOM_ITEM_DEFAULTS), ...fields, id };
+  }
+
+  static toCustomSectionItemUpdates(
+    updates: Record<string, unknown>
+  ): Partial<Omit<CustomSectionItem, "id">> {
+    return mapItemUpdates("custom section", CUSTOM_ITEM_DEFAULTS, CUSTOM_ITEM_ALIASES, updates);
+  }
+
+  // fetch() that aborts after timeoutMs. The timer keeps running while the caller reads
+  // the body, so a stalled body times out too.
+  private async fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+    timer.unref();
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      clearTimeout(timer);
+      throw error;
+    }
+  }
+
+  private authHeaders(extra: HeadersInit | undefined): Record<string, string> {
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
-      ...(options.headers as Record<string, string>),
+      ...(extra as Record<string, string>),
     };
 
     // v5 API key authentication (preferred)
@@ -79,36 +527,84 @@ export class RxResumeApiClient {
     if (this.cookies.length > 0) {
       headers["Cookie"] = this.cookies.join("; ");
     }
+    return headers;
+  }
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
+  // Delay before retrying after the given attempt, or null when the request should fail:
+  // out of retries, out of retry budget, or asked to wait longer than maxRetryAfterMs
+  private retryDelay(attempt: number, retryAfter: number | null = null): number | null {
+    if (attempt > this.policy.maxRetries) return null;
+    if (retryAfter !== null && retryAfter > this.policy.maxRetryAfterMs) return null;
 
-    if (response.status === 401 && this.refreshToken && !this.apiKey) {
-      const refreshed = await this.refreshAccessToken();
-      if (refreshed) {
-        headers["Authorization"] = `Bearer ${this.accessToken}`;
-        const retryResponse = await fetch(url, {
-          ...options,
-          headers,
-        });
-        if (!retryResponse.ok) {
-          const errorText = await retryResponse.text();
+    const now = Date.now();
+    this.retryTimes = this.retryTimes.filter((time) => now - time < 60_000);
+    if (this.retryTimes.length >= this.policy.retryBudget) return null;
+    this.retryTimes.push(now);
+
+    if (retryAfter !== null) return retryAfter;
+    const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.random() * ceiling;
+  }
+
+  // Sends an authenticated request and returns the successful response. Transient
+  // failures are retried with backoff, but a request that may already have reached the
+  // server (network error or gateway timeout) is only repeated if it is idempotent, so
+  // a POST that creates a resume is never sent twice. A legacy access token is
+  // refreshed once on 401.
+  private async send(endpoint: string, options: RequestOptions = {}): Promise<Response> {
+    const { timeoutMs = this.policy.timeoutMs, idempotent, ...init } = options;
+    const url = `${this.baseUrl}${endpoint}`;
+    const retrySafe = idempotent ?? IDEMPOTENT_METHODS.has((init.method ?? "GET").toUpperCase());
+    let refreshed = false;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, { ...init, headers: this.authHeaders(init.headers) }, timeoutMs);
+      } catch (error) {
+        const delay = retrySafe ? this.retryDelay(attempt) : null;
+        if (delay === null) {
+          const reason = error instanceof RequestTimeoutError ? error.message : describeFetchError(error);
           throw new Error(
-            `API request failed: ${retryResponse.status} ${retryResponse.statusText} - ${errorText}`
+            `API request failed: ${reason}` + (attempt > 1 ? ` (after ${attempt} attempts)` : ""),
+            { cause: error }
           );
         }
-        return retryResponse.json() as Promise<T>;
+        await sleep(delay);
+        continue;
       }
-    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `API request failed: ${response.status} ${response.statusText} - ${errorText}`
-      );
+      if (response.status === 401 && this.refreshToken && !this.apiKey && !refreshed) {
+        refreshed = true;
+        if (await this.refreshAccessToken()) {
+          await response.body?.cancel();
+          attempt--;
+          continue;
+        }
+      }
+
+      if (response.ok) {
+        return response;
+      }
+
+      // A 429 was rejected before being processed, so even a POST can be repeated
+      if (RETRYABLE_STATUSES.has(response.status) && (retrySafe || response.status === 429)) {
+        const delay = this.retryDelay(attempt, parseRetryAfter(response.headers.get("retry-after")));
+        if (delay !== null) {
+          await response.body?.cancel();
+          await sleep(delay);
+          continue;
+        }
+      }
+      throw new ApiRequestError(response.status, response.statusText, await response.text(), attempt);
     }
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const response = await this.send(endpoint, options);
 
     const contentType = response.headers.get("content-type");
     if (contentType?.includes("application/json")) {
@@ -119,15 +615,19 @@ export class RxResumeApiClient {
 
   async login(email: string, password: string): Promise<LoginResponse> {
     // v5 uses Better Auth endpoint - requires Origin header
-    const response = await fetch(`${this.baseUrl}/api/auth/sign-in/email`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Origin": this.baseUrl,
+    const response = await this.fetchWithTimeout(
+      `${this.baseUrl}/api/auth/sign-in/email`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Origin": this.baseUrl,
+        },
+        body: JSON.stringify({ email, password }),
+        credentials: "include",
       },
-      body: JSON.stringify({ email, password }),
-      credentials: "include",
-    });
+      this.policy.timeoutMs
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -165,13 +665,17 @@ export class RxResumeApiClient {
     if (!this.refreshToken) return false;
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/auth/refresh`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Cookie: `Refresh=${this.refreshToken}`,
+      const response = await this.fetchWithTimeout(
+        `${this.baseUrl}/api/auth/refresh`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Cookie: `Refresh=${this.refreshToken}`,
+          },
         },
-      });
+        this.policy.timeoutMs
+      );
 
       if (!response.ok) return false;
 
@@ -223,6 +727,12 @@ export class RxResumeApiClient {
   }
 
   async getResume(id: string): Promise<Resume> {
+    const resume = await this.fetchResume(id);
+    this.rememberResume(resume);
+    return resume;
+  }
+
+  private async fetchResume(id: string): Promise<Resume> {
     // v5 uses OpenAPI endpoint with GET method
     const v5Resume = await this.request<ResumeV5>(`/api/openapi/resume/${id}`, {
       method: "GET",
@@ -236,8 +746,8 @@ export class RxResumeApiClient {
       visibility: v5Resume.isPublic ? "public" : "private",
       locked: v5Resume.isLocked,
       userId: "",
-      createdAt: "",
-      updatedAt: "",
+      createdAt: v5Resume.createdAt?.toString() ?? "",
+      updatedAt: v5Resume.updatedAt?.toString() ?? "",
     };
   }
 
@@ -253,22 +763,59 @@ export class RxResumeApiClient {
       method: "POST",
       body: JSON.stringify(v5Dto),
     });
+    this.changeListener?.(resumeId, "created");
     // Fetch the created resume to return full data
     return this.getResume(resumeId);
   }
 
+  // Create a new resume holding a (optionally transformed) copy of another resume's data
+  async duplicateResume(
+    sourceId: string,
+    dto: CreateResumeDto,
+    transform: (data: ResumeData) => ResumeData = (data) => data
+  ): Promise<Resume> {
+    const source = await this.fetchResume(sourceId);
+    const data = transform(structuredClone(source.data));
+    // Validate before creating anything so a bad transform leaves no empty resume behind
+    validateResumeData(data);
+    return this.createResumeWithData(dto, () => data);
+  }
+
+  // Create a resume and write its initial content, built from the server's defaults for
+  // a new resume. If the content cannot be written the new resume is deleted again.
+  async createResumeWithData(
+    dto: CreateResumeDto,
+    build: (initial: ResumeData) => ResumeData
+  ): Promise<Resume> {
+    const created = await this.createResume(dto);
+    try {
+      const data = build(created.data);
+      validateResumeData(data);
+      await this.putResume(created.id, { data });
+      const resume = { ...created, data };
+      this.rememberResume(resume);
+      return resume;
+    } catch (error) {
+      await this.deleteResume(created.id).catch(() => undefined);
+      throw error;
+    }
+  }
+
   async updateResume(id: string, dto: UpdateResumeDto): Promise<Resume> {
-    // v5 uses OpenAPI endpoint with PUT method
-    const v5Dto: Partial<UpdateResumeDtoV5> = {};
-    if (dto.title !== undefined) v5Dto.name = dto.title;
-    if (dto.slug !== undefined) v5Dto.slug = dto.slug;
-    if (dto.data !== undefined) v5Dto.data = dto.data as ResumeData;
-    if (dto.visibility !== undefined) v5Dto.isPublic = dto.visibility === "public";
-    
-    await this.request<unknown>(`/api/openapi/resume/${id}`, {
-      method: "PUT",
-      body: JSON.stringify(v5Dto),
-    });
+    const previews = previewContext.getStore();
+    if (previews) {
+      const resume = await this.fetchResume(id);
+      const { data, ...fields } = dto;
+      const updated = { ...resume, ...fields, data: data ? { ...resume.data, ...data } : resume.data };
+      previews.push({
+        resumeId: id,
+        description: "Update resume",
+        changes: diffValues(resume, updated),
+      });
+      return updated;
+    }
+
+    await this.putResume(id, dto);
     // Fetch updated resume to return
     return this.getResume(id);
   }
@@ -277,6 +824,8 @@ export class RxResumeApiClient {
     await this.request(`/api/openapi/resume/${id}`, {
       method: "DELETE",
     });
+    this.lastSeen.delete(id);
+    this.changeListener?.(id, "deleted");
   }
 
   async lockResume(id: string, locked: boolean): Promise<Resume> {
@@ -285,21 +834,171 @@ export class RxResumeApiClient {
       method: "PUT",
       body: JSON.stringify({ isLocked: locked }),
     });
+    this.changeListener?.(id, "updated");
     return this.getResume(id);
   }
 
+  // Whether mutations re-fetch the resume after the PUT. When off (the default) the
+  // returned resume is built from the data that was written, saving a round trip.
+  setRefetchAfterWrite(enabled: boolean): void {
+    this.refetchAfterWrite = enabled;
+  }
+
+  // The single read-modify-write primitive every data mutation goes through:
+  // one GET, a pure transform of the data, validation, one PUT.
+  // Writes to the same resume are serialized, and the fresh copy is checked against
+  // the version this client last saw so edits made elsewhere are not silently lost.
+  async mutateResumeData(
+    id: string,
+    description: string,
+    mutate: (data: ResumeData) => ResumeData,
+    options: { recordHistory?: boolean } = {}
+  ): Promise<Resume> {
+    const previews = previewContext.getStore();
+    if (previews) {
+      const resume = await this.fetchResume(id);
+      const data = mutate(resume.data);
+      validateResumeData(data);
+      const base = this.lastSeen.get(id);
+      if (base) this.assertNoConflict(base, resume, data);
+      previews.push({ resumeId: id, description, changes: diffValues(resume.data, data) });
+      return { ...resume, data };
+    }
+
+    return this.withWriteLock(id, async () => {
+      const base = this.lastSeen.get(id);
+      const resume = await this.fetchResume(id);
+      const data = mutate(resume.data);
+      // Reject malformed data locally with precise paths instead of an opaque 400
+      validateResumeData(data);
+      if (base) this.assertNoConflict(base, resume, data);
+
+      await this.putResume(id, { data });
+      if (this.history && options.recordHistory !== false && !isEqualValue(resume.data, data)) {
+        // The change is saved at this point; a failed snapshot must not report it as failed
+        try {
+          await this.history.record(id, resume.data, description);
+        } catch (error) {
+          this.warn(
+            `The change was saved, but the previous version could not be recorded in history, so it cannot be undone: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+      const written = this.refetchAfterWrite ? await this.fetchResume(id) : { ...resume, data };
+      this.rememberResume(written);
+      return written;
+    });
+  }
+
+  // Run operations in dry-run mode: every write computes and validates the resulting
+  // data exactly as it would for real, but records the changes instead of sending them
+  async preview(operation: () => Promise<unknown>): Promise<ResumeChangePreview[]> {
+    const previews: ResumeChangePreview[] = [];
+    await previewContext.run(previews, operation);
+    return previews;
+  }
+
+  // Run operations, collecting warnings about steps that failed after a write succeeded
+  async collectWarnings(operation: () => Promise<unknown>): Promise<string[]> {
+    const warnings: string[] = [];
+    await warningContext.run(warnings, operation);
+    return warnings;
+  }
+
+  private warn(message: string): void {
+    const warnings = warningContext.getStore();
+    if (warnings) {
+      warnings.push(message);
+    } else {
+      console.error(`Warning: ${message}`);
+    }
+  }
+
+  // Keep a snapshot of the data before every mutation so it can be undone
+  setHistory(history: ResumeHistory | null): void {
+    this.history = history;
+  }
+
+  getHistory(): ResumeHistory | null {
+    return this.history;
+  }
+
+  // Notified after a resume is created, written or deleted through this client
+  setChangeListener(listener: ResumeChangeListener | null): void {
+    this.changeListener = listener;
+  }
+
+  // Restore the snapshot taken before the most recent change and drop it from history
+  async undoLastChange(resumeId: string): Promise<{ resume: Resume; revision: ResumeRevision }> {
+    const revision = await this.history?.latest(resumeId);
+    if (!revision) {
+      throw new Error(`No history recorded for resume ${resumeId}`);
+    }
+    const resume = await this.mutateResumeData(resumeId, `Undo: ${revision.description}`, () => revision.data, {
+      recordHistory: false,
+    });
+    if (!previewContext.getStore()) {
+      await this.history!.remove(resumeId, revision.id);
+    }
+    return { resume, revision };
+  }
+
+  // Restore any recorded snapshot. The current state is recorded first, so this can be undone too.
+  async restoreRevision(resumeId: string, revisionId: string): Promise<Resume> {
+    const revision = await this.history?.get(resumeId, revisionId);
+    if (!revision) {
+      throw new Error(`Revision ${revisionId} not found in the history of resume ${resumeId}`);
+    }
+    return this.mutateResumeData(resumeId, `Restore revision ${revisionId}`, () => revision.data);
+  }
+
+  // Forget the version a resume was last seen at, so the next write is not conflict-checked
+  forgetResume(id: string): void {
+    this.lastSeen.delete(id);
+  }
+
+  private rememberResume(resume: Resume): void {
+    // Re-insert so the Map's order stays least recently used first
+    this.lastSeen.delete(resume.id);
+    this.lastSeen.set(resume.id, resume);
+    if (this.lastSeen.size > LAST_SEEN_LIMIT) {
+      this.lastSeen.delete(this.lastSeen.keys().next().value!);
+    }
+  }
+
+  private assertNoConflict(base: Resume, current: Resume, next: ResumeData): void {
+    if (isEqualValue(base.data, current.data)) return;
+
+    // Someone else changed the resume; that is only a conflict if this write touches the same fields
+    const changedElsewhere = diffValues(base.data, current.data).map((change) => change.path);
+    const changedHere = diffValues(current.data, next).map((change) => change.path);
+    const conflicts = changedElsewhere.filter((path) => changedHere.some((own) => pathsOverlap(path, own)));
+    if (conflicts.length > 0) {
+      throw new ResumeConflictError(base.id, conflicts, base.updatedAt, current.updatedAt);
+    }
+  }
+
+  private async withWriteLock<T>(id: string, write: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueue.get(id) ?? Promise.resolve();
+    const result = previous.catch(() => undefined).then(write);
+    this.writeQueue.set(id, result);
+    try {
+      return await result;
+    } finally {
+      if (this.writeQueue.get(id) === result) this.writeQueue.delete(id);
+    }
+  }
+
   async updateResumeData(
     id: string,
     data: Partial<ResumeData>
   ): Promise<Resume> {
-    const resume = await this.getResume(id);
-    const mergedData = {
-      ...resume.data,
+    return this.mutateResumeData(id, "Update resume data", (current) => ({
+      ...current,
       ...data,
-      basics: data.basics ? { ...resume.data.basics, ...data.basics } : resume.data.basics,
-      sections: data.sections ? { ...resume.data.sections, ...data.sections } : resume.data.sections,
-    };
-    return this.updateResume(id, { data: mergedData });
+      basics: data.basics ? { ...current.basics, ...data.basics } : current.basics,
+      sections: data.sections ? { ...current.sections, ...data.sections } : current.sections,
+    }));
   }
 
   async updateSection<T>(
@@ -307,92 +1006,405 @@ export class RxResumeApiClient {
     sectionName: SectionName,
     sectionData: T
   ): Promise<Resume> {
-    const resume = await this.getResume(resumeId);
-    const updatedSections = {
-      ...resume.data.sections,
-      [sectionName]: sectionData,
-    };
-    return this.updateResumeData(resumeId, { sections: updatedSections as ResumeData["sections"] });
+    validateSection(sectionName, sectionData);
+    return this.mutateResumeData(resumeId, `Update ${sectionName} section`, (data) => ({
+      ...data,
+      sections: { ...data.sections, [sectionName]: sectionData },
+    }));
+  }
+
+  async updateSummary(resumeId: string, content: string): Promise<Resume> {
+    return this.mutateSection(resumeId, "summary", "Update summary", (section) => ({
+      ...section,
+      content,
+    }));
   }
 
-  async addSectionItem<T extends { id: string }>(
+  async setSectionVisibility(
     resumeId: string,
     sectionName: SectionName,
-    item: T
+    visible: boolean
+  ): Promise<Resume> {
+    const description = `${visible ? "Show" : "Hide"} ${sectionName} section`;
+    return this.mutateSection(resumeId, sectionName, description, (section) => ({ ...section, visible }));
+  }
+
+  async addSectionItem<S extends ItemSectionName>(
+    resumeId: string,
+    sectionName: S,
+    item: SectionItemMap[S]
+  ): Promise<Resume> {
+    return this.mutateItems(resumeId, sectionName, `Add ${sectionName} item`, (items) => [...items, item]);
+  }
+
+  async updateSectionItem<S extends ItemSectionName>(
+    resumeId: string,
+    sectionName: S,
+    itemId: string,
+    updates: SectionItemUpdates<S>
+  ): Promise<Resume> {
+    return this.mutateItems(resumeId, sectionName, `Update ${sectionName} item ${itemId}`, (items) => {
+      assertItemExists(items, itemId, `${sectionName} section`);
+      return items.map((item) => (item.id === itemId ? { ...item, ...updates } : item));
+    });
+  }
+
+  async removeSectionItem(
+    resumeId: string,
+    sectionName: ItemSectionName,
+    itemId: string
   ): Promise<Resume> {
+    return this.mutateItems(resumeId, sectionName, `Remove ${sectionName} item ${itemId}`, (items) => {
+      assertItemExists(items, itemId, `${sectionName} section`);
+      return items.filter((item) => item.id !== itemId);
+    });
+  }
+
+  async reorderSectionItems(
+    resumeId: string,
+    sectionName: ItemSectionName,
+    order: ItemOrder
+  ): Promise<Resume> {
+    return this.mutateItems(resumeId, sectionName, `Reorder ${sectionName} items`, (items) =>
+      reorderItems(items, order)
+    );
+  }
+
+  private async mutateSection<S extends SectionName>(
+    resumeId: string,
+    sectionName: S,
+    description: string,
+    mutate: (section: ResumeSections[S]) => ResumeSections[S]
+  ): Promise<Resume> {
+    return this.mutateResumeData(resumeId, description, (data) => {
+      const section = mutate(data.sections[sectionName]);
+      validateSection(sectionName, section);
+      return { ...data, sections: { ...data.sections, [sectionName]: section } };
+    });
+  }
+
+  private async mutateItems<S extends ItemSectionName>(
+    resumeId: string,
+    sectionName: S,
+    description: string,
+    mutate: (items: SectionItemMap[S][]) => SectionItemMap[S][]
+  ): Promise<Resume> {
+    return this.mutateSection(resumeId, sectionName, description, (section) => {
+      const { items } = section as unknown as { items: SectionItemMap[S][] };
+      return { ...section, items: mutate(items) };
+    });
+  }
+
+  async listCustomSections(resumeId: string): Promise<Array<ResumeSection<CustomSectionItem>>> {
     const resume = await this.getResume(resumeId);
-    const section = resume.data.sections[sectionName] as unknown as { items: T[] };
-    const updatedSection = {
+    return Object.values(resume.data.sections.custom);
+  }
+
+  async createCustomSection(
+    resumeId: string,
+    sectionId: string,
+    name: string,
+    placement: { page: number; column: number } = { page: 0, column: 0 }
+  ): Promise<Resume> {
+    return this.mutateResumeData(resumeId, `Create custom section ${name}`, ({ sections, metadata, ...data }) => {
+      const page = metadata.layout[placement.page];
+      if (!page) {
+        throw new Error(
+          `Layout page ${placement.page} does not exist (resume has ${metadata.layout.length} page(s))`
+        );
+      }
+      if (!page[placement.column]) {
+        throw new Error(
+          `Layout column ${placement.column} does not exist on page ${placement.page} (page has ${page.length} column(s))`
+        );
+      }
+
+      const section: ResumeSection<CustomSectionItem> = {
+        id: sectionId,
+        name,
+        columns: 1,
+        separateLinks: true,
+        visible: true,
+        items: [],
+      };
+      // Place the section in the layout, otherwise it exists but never renders
+      const layout = metadata.layout.map((columns, pageIndex) =>
+        columns.map((column, columnIndex) =>
+          pageIndex === placement.page && columnIndex === placement.column
+            ? [...column, customSectionLayoutId(sectionId)]
+            : column
+        )
+      );
+      return {
+        ...data,
+        sections: { ...sections, custom: { ...sections.custom, [sectionId]: section } },
+        metadata: { ...metadata, layout },
+      };
+    });
+  }
+
+  async renameCustomSection(resumeId: string, sectionId: string, name: string): Promise<Resume> {
+    return this.mutateCustomSection(resumeId, sectionId, `Rename custom section ${sectionId}`, (section) => ({
+      ...section,
+      name,
+    }));
+  }
+
+  async deleteCustomSection(resumeId: string, sectionId: string): Promise<Resume> {
+    return this.mutateResumeData(resumeId, `Delete custom section ${sectionId}`, ({ sections, metadata, ...data }) => {
+      findCustomSection(sections, sectionId);
+      const { [sectionId]: _removed, ...custom } = sections.custom;
+      const layoutId = customSectionLayoutId(sectionId);
+      const layout = metadata.layout.map((columns) =>
+        columns.map((column) => column.filter((id) => id !== layoutId))
+      );
+      return {
+        ...data,
+        sections: { ...sections, custom },
+        metadata: { ...metadata, layout },
+      };
+    });
+  }
+
+  async addCustomSectionItem(
+    resumeId: string,
+    sectionId: string,
+    item: CustomSectionItem
+  ): Promise<Resume> {
+    return this.mutateCustomSection(resumeId, sectionId, `Add item to custom section ${sectionId}`, (section) => ({
       ...section,
       items: [...section.items, item],
-    };
-    return this.updateSection(resumeId, sectionName, updatedSection);
+    }));
   }
 
-  async updateSectionItem<T extends { id: string }>(
+  async updateCustomSectionItem(
     resumeId: string,
-    sectionName: SectionName,
+    sectionId: string,
     itemId: string,
-    updates: Partial<T>
+    updates: Partial<Omit<CustomSectionItem, "id">>
   ): Promise<Resume> {
-    const resume = await this.getResume(resumeId);
-    const section = resume.data.sections[sectionName] as unknown as { items: T[] };
-    const updatedItems = section.items.map((item) =>
-      item.id === itemId ? { ...item, ...updates } : item
-    );
-    const updatedSection = {
-      ...section,
-      items: updatedItems,
-    };
-    return this.updateSection(resumeId, sectionName, updatedSection);
+    return this.mutateCustomSection(resumeId, sectionId, `Update item ${itemId} in custom section ${sectionId}`, (section) => {
+      assertItemExists(section.items, itemId, `custom section ${sectionId}`);
+      const items = section.items.map((item) => (item.id === itemId ? { ...item, ...updates } : item));
+      return { ...section, items };
+    });
   }
 
-  async removeSectionItem(
+  async removeCustomSectionItem(
     resumeId: string,
-    sectionName: SectionName,
+    sectionId: string,
     itemId: string
   ): Promise<Resume> {
-    const resume = await this.getResume(resumeId);
-    const section = resume.data.sections[sectionName] as { items: { id: string }[] };
-    const updatedSection = {
+    return this.mutateCustomSection(resumeId, sectionId, `Remove item ${itemId} from custom section ${sectionId}`, (section) => {
+      assertItemExists(section.items, itemId, `custom section ${sectionId}`);
+      return { ...section, items: section.items.filter((item) => item.id !== itemId) };
+    });
+  }
+
+  async reorderCustomSectionItems(
+    resumeId: string,
+    sectionId: string,
+    order: ItemOrder
+  ): Promise<Resume> {
+    return this.mutateCustomSection(resumeId, sectionId, `Reorder items in custom section ${sectionId}`, (section) => ({
       ...section,
-      items: section.items.filter((item) => item.id !== itemId),
-    };
-    return this.updateSection(resumeId, sectionName, updatedSection);
+      items: reorderItems(section.items, order),
+    }));
   }
 
-  async updateBasics(
+  private async mutateCustomSection(
     resumeId: string,
-    basics: Partial<ResumeData["basics"]>
+    sectionId: string,
+    description: string,
+    mutate: (section: ResumeSection<CustomSectionItem>) => ResumeSection<CustomSectionItem>
   ): Promise<Resume> {
-    const resume = await this.getResume(resumeId);
-    const updatedBasics = {
-      ...resume.data.basics,
-      ...basics,
-    };
-    return this.updateResumeData(resumeId, { basics: updatedBasics });
+    return this.mutateResumeData(resumeId, description, (data) => {
+      const section = mutate(findCustomSection(data.sections, sectionId));
+      return {
+        ...data,
+        sections: { ...data.sections, custom: { ...data.sections.custom, [sectionId]: section } },
+      };
+    });
   }
 
-  async getResumeSchema(): Promise<unknown> {
-    return this.request("/api/resume/schema");
+  async setTemplate(resumeId: string, template: string): Promise<Resume> {
+    return this.mutateMetadata(resumeId, `Set template ${template}`, (metadata) => ({ ...metadata, template }));
   }
 
-  async printResume(
-    id: string,
-    format: "pdf" = "pdf"
-  ): Promise<ArrayBuffer> {
-    const response = await fetch(`${this.baseUrl}/api/resume/print/${id}`, {
-      headers: {
-        Authorization: `Bearer ${this.accessToken}`,
-        Accept: format === "pdf" ? "application/pdf" : "image/jpeg",
+  async setLayout(resumeId: string, layout: ResumeMetadata["layout"]): Promise<Resume> {
+    return this.mutateResumeData(resumeId, "Set layout", (data) => {
+      assertValidLayout(data, layout);
+      return { ...data, metadata: { ...data.metadata, layout } };
+    });
+  }
+
+  // Move a section to a page/column, optionally at a given position within that column.
+  // A page index one past the last page adds a new page.
+  async moveSectionInLayout(
+    resumeId: string,
+    sectionId: string,
+    target: { page: number; column: number; index?: number }
+  ): Promise<Resume> {
+    return this.mutateResumeData(resumeId, `Move ${sectionId} in layout`, (data) => {
+      const current = data.metadata.layout;
+      assertValidLayout(data, [[[sectionId]]]);
+
+      if (target.page > current.length) {
+        throw new Error(
+          `Layout page ${target.page} does not exist (resume has ${current.length} page(s); use ${current.length} to add a page)`
+        );
+      }
+      const columnCount = current[target.page]?.length ?? current[0]?.length ?? 1;
+      if (target.column >= columnCount) {
+        throw new Error(
+          `Layout column ${target.column} does not exist on page ${target.page} (page has ${columnCount} column(s))`
+        );
+      }
+
+      const layout = current.map((columns) => columns.map((column) => column.filter((id) => id !== sectionId)));
+      if (target.page === layout.length) {
+        layout.push(Array.from({ length: columnCount }, () => []));
+      }
+      const column = layout[target.page][target.column];
+      column.splice(target.index ?? column.length, 0, sectionId);
+
+      return { ...data, metadata: { ...data.metadata, layout } };
+    });
+  }
+
+  async reorderLayoutSections(resumeId: string, order: LayoutOrder): Promise<Resume> {
+    return this.mutateMetadata(resumeId, "Reorder layout sections", (metadata) => ({
+      ...metadata,
+      layout: reorderLayout(metadata.layout, order),
+    }));
+  }
+
+  async updatePage(
+    resumeId: string,
+    page: Partial<Pick<ResumeMetadata["page"], "format" | "margin">>
+  ): Promise<Resume> {
+    const updates = definedFields(page, "page settings");
+    return this.mutateMetadata(resumeId, "Update page settings", (metadata) => ({
+      ...metadata,
+      page: { ...metadata.page, ...updates },
+    }));
+  }
+
+  async updateTheme(resumeId: string, theme: Partial<ResumeMetadata["theme"]>): Promise<Resume> {
+    const updates = definedFields(theme, "theme colours");
+    return this.mutateMetadata(resumeId, "Update theme colours", (metadata) => ({
+      ...metadata,
+      theme: { ...metadata.theme, ...updates },
+    }));
+  }
+
+  async updateTypography(
+    resumeId: string,
+    typography: { family?: string; size?: number; lineHeight?: number }
+  ): Promise<Resume> {
+    return this.mutateMetadata(resumeId, "Update typography", (metadata) => {
+      const { font } = metadata.typography;
+      return {
+        ...metadata,
+        typography: {
+          ...metadata.typography,
+          font: {
+            ...font,
+            family: typography.family ?? font.family,
+            size: typography.size ?? font.size,
+          },
+          lineHeight: typography.lineHeight ?? metadata.typography.lineHeight,
+        },
+      };
+    });
+  }
+
+  async updateCustomCss(
+    resumeId: string,
+    css: { value?: string; mode?: "replace" | "append"; visible?: boolean }
+  ): Promise<Resume> {
+    return this.mutateMetadata(resumeId, "Update custom CSS", (metadata) => {
+      let value = metadata.css.value;
+      if (css.value !== undefined) {
+        value =
+          css.mode === "append" && value.trim() !== ""
+            ? `${value.trimEnd()}\n\n${css.value}`
+            : css.value;
+      }
+      return {
+        ...metadata,
+        css: { value, visible: css.visible ?? metadata.css.visible },
+      };
+    });
+  }
+
+  private async mutateMetadata(
+    resumeId: string,
+    description: string,
+    mutate: (metadata: ResumeMetadata) => ResumeMetadata
+  ): Promise<Resume> {
+    return this.mutateResumeData(resumeId, description, (data) => ({
+      ...data,
+      metadata: mutate(data.metadata),
+    }));
+  }
+
+  async updateBasics(resumeId: string, basics: BasicsUpdates): Promise<Resume> {
+    return this.mutateResumeData(resumeId, "Update basics", (data) => ({
+      ...data,
+      basics: {
+        ...data.basics,
+        ...basics,
+        url: { ...data.basics.url, ...basics.url },
       },
+    }));
+  }
+
+  private async putResume(id: string, dto: UpdateResumeDto): Promise<void> {
+    // v5 uses OpenAPI endpoint with PUT method
+    const v5Dto: Partial<UpdateResumeDtoV5> = {};
+    if (dto.title !== undefined) v5Dto.name = dto.title;
+    if (dto.slug !== undefined) v5Dto.slug = dto.slug;
+    if (dto.data !== undefined) v5Dto.data = dto.data as ResumeData;
+    if (dto.visibility !== undefined) v5Dto.isPublic = dto.visibility === "public";
+
+    await this.request<unknown>(`/api/openapi/resume/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(v5Dto),
     });
+    this.changeListener?.(id, "updated");
+  }
 
-    if (!response.ok) {
-      throw new Error(`Print failed: ${response.status}`);
+  async getResumeSchema(): Promise<unknown> {
+    return this.request("/api/resume/schema");
+  }
+
+  // Render a resume to PDF. v5 renders on the server and answers with the URL of the
+  // stored file, which is then downloaded; a PDF returned directly is used as is.
+  async printResume(id: string): Promise<ArrayBuffer> {
+    const timeoutMs = Math.max(this.policy.timeoutMs, PRINT_TIMEOUT_MS);
+    const response = await this.send(`/api/openapi/printer/resume/${id}/pdf`, {
+      method: "GET",
+      headers: { Accept: "application/pdf, application/json" },
+      timeoutMs,
+    });
+    if (!response.headers.get("content-type")?.includes("application/json")) {
+      return response.arrayBuffer();
     }
 
-    return response.arrayBuffer();
+    const { url } = (await response.json()) as { url?: string };
+    if (!url) {
+      throw new Error("Print failed: the server did not return a PDF URL");
+    }
+    const target = new URL(url, `${this.baseUrl}/`).href;
+    // Only send credentials back to the Reactive Resume instance itself, not to external storage
+    const download = target.startsWith(`${this.baseUrl}/`)
+      ? await this.send(target.slice(this.baseUrl.length), { method: "GET", timeoutMs })
+      : await this.fetchWithTimeout(target, {}, timeoutMs);
+    if (!download.ok) {
+      throw new Error(`Print failed: could not download PDF (${download.status})`);
+    }
+    return download.arrayBuffer();
   }
 
   async healthCheck(): Promise<{ status: string }> {
@@ -400,7 +1412,7 @@ export class RxResumeApiClient {
       return await this.request<{ status: string }>("/api/health");
     } catch {
       // Some instances may not have /api/health, check root
-      const response = await fetch(`${this.baseUrl}`);
+      const response = await this.fetchWithTimeout(this.baseUrl, {}, this.policy.timeoutMs);
       return { status: response.ok ? "healthy" : "unhealthy" };
     }
   }
@@ -0,0 +1,243 @@
+// Minimal CSS scanner used to vet custom CSS before it is saved to a resume.
+// It does not build a full stylesheet AST; it tokenizes enough to reject input a
+// browser would choke on (unbalanced blocks, unterminated strings or comments) and
+// to strip constructs that make the renderer fetch external resources.
+
+export class CssSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Invalid CSS at line ${line}, column ${column}: ${message}`);
+    this.name = "CssSyntaxError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface SanitizedCss {
+  css: string;
+  // Source text of every construct that was stripped
+  removed: string[];
+}
+
+const CLOSING: Record<string, string> = { "}": "{", ")": "(", "]": "[" };
+
+function isIdentChar(char: string | undefined): boolean {
+  return char !== undefined && (/[a-zA-Z0-9_-]/.test(char) || char.charCodeAt(0) > 0x7f);
+}
+
+function isIdentStart(char: string | undefined): boolean {
+  return char !== undefined && (/[a-zA-Z_-]/.test(char) || char.charCodeAt(0) > 0x7f || char === "\\");
+}
+
+// A url() target is local if it is inline data, a fragment or a relative path.
+// Anything with a scheme or a protocol-relative "//host" prefix leaves the document.
+function isRemoteUrl(target: string): boolean {
+  const url = target.trim().toLowerCase();
+  if (url.startsWith("data:") || url.startsWith("#")) return false;
+  return /^[a-z][a-z0-9+.-]*:/.test(url) || url.startsWith("//") || url.startsWith("\\\\");
+}
+
+// Functions that take an image or resource URL as a plain string argument, unlike url()
+const STRING_URL_FUNCTIONS = new Set(["image-set", "-webkit-image-set", "src"]);
+
+interface OpenBracket {
+  char: string;
+  index: number;
+  // Set for "(" opening a STRING_URL_FUNCTIONS call: where its name starts in the
+  // source and output, and whether a remote string argument was seen
+  call?: { start: number; output: number; remote: boolean };
+}
+
+class CssScanner {
+  private index = 0;
+
+  constructor(private readonly input: string) {}
+
+  sanitize(): SanitizedCss {
+    const output: string[] = [];
+    const removed: string[] = [];
+    const open: OpenBracket[] = [];
+    const input = this.input;
+
+    while (this.index < input.length) {
+      const start = this.index;
+      const char = input[start];
+
+      if (char === "/" && input[start + 1] === "*") {
+        const end = input.indexOf("*/", start + 2);
+        if (end === -1) this.fail("unterminated comment", start);
+        this.index = end + 2;
+        output.push(input.slice(start, this.index));
+      } else if (char === '"' || char === "'") {
+        const value = this.readString();
+        const call = open[open.length - 1]?.call;
+        if (call && isRemoteUrl(value)) call.remote = true;
+        output.push(input.slice(start, this.index));
+      } else if (char === "@" && isIdentStart(input[start + 1])) {
+        this.index++;
+        const name = this.readIdent();
+        if (name.toLowerCase() === "import") {
+          this.skipStatement();
+          removed.push(input.slice(start, this.index).trim());
+        } else {
+          output.push(input.slice(start, this.index));
+        }
+      } else if (isIdentStart(char) && !(char === "\\" && input[start + 1] === "\n")) {
+        const name = this.readIdent();
+        if (input[this.index] === "(" && name.toLowerCase() === "url") {
+          this.index++;
+          const target = this.readUrlTarget();
+          const source = input.slice(start, this.index);
+          if (isRemoteUrl(target)) {
+            removed.push(source);
+            output.push("none");
+          } else {
+            output.push(source);
+          }
+        } else if (input[this.index] === "(" && STRING_URL_FUNCTIONS.has(name.toLowerCase())) {
+          open.push({ char: "(", index: this.index, call: { start, output: output.length, remote: false } });
+          output.push(input.slice(start, ++this.index));
+        } else {
+          output.push(input.slice(start, this.index));
+        }
+      } else {
+        if (char === "{" || char === "(" || char === "[") {
+          open.push({ char, index: start });
+        } else if (char in CLOSING) {
+          const last = open.pop();
+          if (!last || last.char !== CLOSING[char]) {
+            this.fail(`unexpected "${char}"`, start);
+          }
+          if (last.call?.remote) {
+            this.index++;
+            removed.push(input.slice(last.call.start, this.index));
+            output.splice(last.call.output, output.length - last.call.output, "none");
+            continue;
+          }
+        } else if (char === "\\") {
+          this.fail("stray backslash", start);
+        }
+        output.push(char);
+        this.index++;
+      }
+    }
+
+    if (open.length > 0) {
+      const last = open[open.length - 1];
+      this.fail(`"${last.char}" is never closed`, last.index);
+    }
+    return { css: output.join(""), removed };
+  }
+
+  // Reads an identifier (with CSS escapes) and returns its decoded value
+  private readIdent(): string {
+    let value = "";
+    while (this.index < this.input.length) {
+      const char = this.input[this.index];
+      if (char === "\\" && this.input[this.index + 1] !== "\n") {
+        value += this.readEscape();
+      } else if (isIdentChar(char)) {
+        value += char;
+        this.index++;
+      } else {
+        break;
+      }
+    }
+    return value;
+  }
+
+  // Reads a quoted string starting at the current quote and returns its decoded value
+  private readString(): string {
+    const start = this.index;
+    const quote = this.input[this.index++];
+    let value = "";
+    while (this.index < this.input.length) {
+      const char = this.input[this.index];
+      if (char === quote) {
+        this.index++;
+        return value;
+      }
+      if (char === "\n") this.fail("unterminated string", start);
+      if (char === "\\") {
+        if (this.input[this.index + 1] === "\n") {
+          this.index += 2;
+        } else {
+          value += this.readEscape();
+        }
+      } else {
+        value += char;
+        this.index++;
+      }
+    }
+    this.fail("unterminated string", start);
+  }
+
+  private readEscape(): string {
+    const start = this.index;
+    this.index++; // backslash
+    const hex = /^[0-9a-fA-F]{1,6}/.exec(this.input.slice(this.index, this.index + 6));
+    if (hex) {
+      this.index += hex[0].length;
+      if (/\s/.test(this.input[this.index] ?? "")) this.index++;
+      const codePoint = parseInt(hex[0], 16);
+      return codePoint === 0 || codePoint > 0x10ffff ? "�" : String.fromCodePoint(codePoint);
+    }
+    if (this.index >= this.input.length) this.fail("escape at end of input", start);
+    return this.input[this.index++];
+  }
+
+  // Reads the contents of url( ... ) after the opening parenthesis, through the closing one
+  private readUrlTarget(): string {
+    const start = this.index - 1;
+    this.skipWhitespace();
+    let target: string;
+    const char = this.input[this.index];
+    if (char === '"' || char === "'") {
+      target = this.readString();
+      this.skipWhitespace();
+    } else {
+      target = "";
+      while (this.index < this.input.length && !/[)\s"'(]/.test(this.input[this.index])) {
+        target += this.input[this.index] === "\\" ? this.readEscape() : this.input[this.index++];
+      }
+      this.skipWhitespace();
+    }
+    if (this.input[this.index] !== ")") this.fail("malformed url()", start);
+    this.index++;
+    return target;
+  }
+
+  // Skips to just past the ";" ending the current at-rule, respecting strings and parentheses
+  private skipStatement(): void {
+    let depth = 0;
+    while (this.index < this.input.length) {
+      const char = this.input[this.index];
+      if (char === '"' || char === "'") {
+        this.readString();
+        continue;
+      }
+      this.index++;
+      if (char === "(") depth++;
+      else if (char === ")") depth--;
+      else if (char === ";" && depth <= 0) return;
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.input[this.index] ?? "")) this.index++;
+  }
+
+  private fail(message: string, index: number): never {
+    const before = this.input.slice(0, index).split("\n");
+    throw new CssSyntaxError(message, before.length, before[before.length - 1].length + 1);
+  }
+}
+
+// Validate custom CSS and strip @import rules, url() references to remote hosts and
+// image-set()/src() calls with a remote string argument.
+// Throws CssSyntaxError for input that is not well-formed.
+export function sanitizeCss(input: string): SanitizedCss {
+  return new CssScanner(input).sanitize();
+}
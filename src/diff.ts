@@ -0,0 +1,253 @@
+import type { ResumeData } from "./types.js";
+
+// Path-level comparison of JSON values, using the same path notation as validation
+// errors: "sections.experience.items[2].period".
+
+export interface ValueChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+function joinPath(base: string, segment: string | number): string {
+  if (typeof segment === "number") return `${base}[${segment}]`;
+  return base ? `${base}.${segment}` : segment;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Arrays of items with unique ids (resume section items) are matched by id
+function idsOf(list: unknown[]): string[] | null {
+  const ids = list.map((entry) => (isPlainObject(entry) && typeof entry.id === "string" ? entry.id : null));
+  if (ids.some((id) => id === null) || new Set(ids).size !== ids.length) return null;
+  return ids as string[];
+}
+
+function diffItemArrays(
+  before: unknown[],
+  after: unknown[],
+  beforeIds: string[],
+  afterIds: string[],
+  path: string
+): ValueChange[] {
+  const kept = beforeIds.filter((id) => afterIds.includes(id));
+  const keptAfter = afterIds.filter((id) => beforeIds.includes(id));
+  // A reorder affects the array as a whole
+  if (kept.some((id, index) => keptAfter[index] !== id)) return [{ path, before, after }];
+
+  const changes: ValueChange[] = [];
+  beforeIds.forEach((id, index) => {
+    const afterIndex = afterIds.indexOf(id);
+    if (afterIndex === -1) {
+      changes.push({ path: joinPath(path, index), before: before[index], after: undefined });
+    } else {
+      changes.push(...diffValues(before[index], after[afterIndex], joinPath(path, afterIndex)));
+    }
+  });
+  afterIds.forEach((id, index) => {
+    if (!beforeIds.includes(id)) {
+      changes.push({ path: joinPath(path, index), before: undefined, after: after[index] });
+    }
+  });
+  return changes;
+}
+
+// Leaf-level changes between two values. Arrays of items are matched by id; other
+// arrays whose length differs are reported as a single change at the array's path.
+export function diffValues(before: unknown, after: unknown, path = ""): ValueChange[] {
+  if (Object.is(before, after)) return [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const beforeIds = idsOf(before);
+    const afterIds = idsOf(after);
+    if (beforeIds && afterIds && (before.length > 0 || after.length > 0)) {
+      return diffItemArrays(before, after, beforeIds, afterIds, path);
+    }
+    if (before.length !== after.length) return [{ path, before, after }];
+    return before.flatMap((entry, index) => diffValues(entry, after[index], joinPath(path, index)));
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) => diffValues(before[key], after[key], joinPath(path, key)));
+  }
+
+  return [{ path, before, after }];
+}
+
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  return diffValues(a, b).length === 0;
+}
+
+// True when one path is the other or contains it (e.g. "a.b" and "a.b.c" or "a.b[0]")
+export function pathsOverlap(a: string, b: string): boolean {
+  if (a === "" || b === "") return true;
+  const contains = (outer: string, inner: string) =>
+    inner === outer || inner.startsWith(`${outer}.`) || inner.startsWith(`${outer}[`);
+  return contains(a, b) || contains(b, a);
+}
+
+// Section-aware comparison of two resumes
+
+export interface ItemRef {
+  id: string;
+  label: string;
+}
+
+export interface SectionDiff {
+  status: "added" | "removed" | "changed";
+  // Section-level fields (name, visible, columns, summary content, ...)
+  settings: ValueChange[];
+  added: ItemRef[];
+  removed: ItemRef[];
+  modified: Array<ItemRef & { changes: ValueChange[] }>;
+  reordered: boolean;
+}
+
+export interface ResumeDiff {
+  basics: ValueChange[];
+  // Keyed by section name, or "custom.<id>" for custom sections; unchanged sections are omitted
+  sections: Record<string, SectionDiff>;
+  metadata: ValueChange[];
+}
+
+type Item = Record<string, unknown> & { id: string };
+
+// Human-readable label for an item, e.g. "Senior Engineer at Acme"
+export function itemLabel(item: Record<string, unknown>): string {
+  const text = (key: string) => (typeof item[key] === "string" ? (item[key] as string).trim() : "");
+  if (text("position") && (text("company") || text("organization"))) {
+    return `${text("position")} at ${text("company") || text("organization")}`;
+  }
+  if (text("degree") && text("school")) return `${text("degree")} at ${text("school")}`;
+  for (const key of ["name", "title", "company", "school", "organization", "language", "network"]) {
+    if (text(key)) return text(key);
+  }
+  return typeof item.id === "string" ? item.id : "(untitled)";
+}
+
+function diffItems(before: Item[], after: Item[]): Omit<SectionDiff, "status" | "settings"> {
+  const pairs: Array<[Item, Item]> = [];
+  const unmatchedBefore = new Set(before);
+  const unmatchedAfter = new Set(after);
+
+  // Match by id first, then by label so copies with regenerated ids still line up
+  for (const match of [(item: Item) => item.id, (item: Item) => itemLabel(item).toLowerCase()]) {
+    for (const item of [...unmatchedBefore]) {
+      const counterpart = [...unmatchedAfter].find((candidate) => match(candidate) === match(item));
+      if (counterpart) {
+        pairs.push([item, counterpart]);
+        unmatchedBefore.delete(item);
+        unmatchedAfter.delete(counterpart);
+      }
+    }
+  }
+
+  const ref = (item: Item): ItemRef => ({ id: item.id, label: itemLabel(item) });
+  const modified = pairs
+    .map(([a, b]) => ({ ...ref(b), changes: diffValues(withoutId(a), withoutId(b)) }))
+    .filter((entry) => entry.changes.length > 0);
+
+  const keptBefore = before.filter((item) => pairs.some(([a]) => a === item));
+  const keptAfter = after.filter((item) => pairs.some(([, b]) => b === item));
+  const reordered = keptBefore.some((item, index) => pairs.find(([a]) => a === item)![1] !== keptAfter[index]);
+
+  return {
+    added: [...unmatchedAfter].map(ref),
+    removed: [...unmatchedBefore].map(ref),
+    modified,
+    reordered,
+  };
+}
+
+function withoutId(item: Item): Record<string, unknown> {
+  const { id: _id, ...rest } = item;
+  return rest;
+}
+
+function diffSection(before: unknown, after: unknown): SectionDiff | null {
+  const { items: beforeItems = [], ...beforeSettings } = (before ?? {}) as { items?: Item[] };
+  const { items: afterItems = [], ...afterSettings } = (after ?? {}) as { items?: Item[] };
+  const status = before === undefined ? "added" : after === undefined ? "removed" : "changed";
+  const section: SectionDiff = {
+    status,
+    settings: status === "changed" ? diffValues(beforeSettings, afterSettings) : [],
+    ...diffItems(beforeItems, afterItems),
+  };
+  const changed =
+    status !== "changed" ||
+    section.settings.length > 0 ||
+    section.added.length > 0 ||
+    section.removed.length > 0 ||
+    section.modified.length > 0 ||
+    section.reordered;
+  return changed ? section : null;
+}
+
+export function diffResumeData(before: ResumeData, after: ResumeData): ResumeDiff {
+  const sections: Record<string, SectionDiff> = {};
+  const { custom: beforeCustom = {}, ...beforeSections } = before.sections;
+  const { custom: afterCustom = {}, ...afterSections } = after.sections;
+
+  const compare = (key: string, a: unknown, b: unknown) => {
+    const section = diffSection(a, b);
+    if (section) sections[key] = section;
+  };
+  for (const name of new Set([...Object.keys(beforeSections), ...Object.keys(afterSections)])) {
+    compare(
+      name,
+      (beforeSections as Record<string, unknown>)[name],
+      (afterSections as Record<string, unknown>)[name]
+    );
+  }
+  for (const id of new Set([...Object.keys(beforeCustom), ...Object.keys(afterCustom)])) {
+    compare(`custom.${id}`, beforeCustom[id], afterCustom[id]);
+  }
+
+  return {
+    basics: diffValues(before.basics, after.basics),
+    sections,
+    metadata: diffValues(before.metadata, after.metadata),
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(none)";
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function formatChanges(changes: ValueChange[], indent: string): string[] {
+  return changes.map((change) => `${indent}${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+}
+
+export function formatResumeDiff(diff: ResumeDiff): string {
+  const lines: string[] = [];
+
+  if (diff.basics.length > 0) {
+    lines.push(`Basics: ${diff.basics.length} field(s) changed`, ...formatChanges(diff.basics, "  ~ "));
+  }
+  for (const [name, section] of Object.entries(diff.sections)) {
+    const counts = [
+      `${section.added.length} added`,
+      `${section.removed.length} removed`,
+      `${section.modified.length} modified`,
+    ];
+    if (section.reordered) counts.push("reordered");
+    const status = section.status === "changed" ? "" : ` (section ${section.status})`;
+    lines.push(`${name}${status}: ${counts.join(", ")}`);
+    lines.push(...formatChanges(section.settings, "  ~ "));
+    lines.push(...section.added.map((item) => `  + ${item.label}`));
+    lines.push(...section.removed.map((item) => `  - ${item.label}`));
+    for (const item of section.modified) {
+      lines.push(`  ~ ${item.label}: ${item.changes.map((change) => change.path).join(", ")}`);
+    }
+  }
+  if (diff.metadata.length > 0) {
+    lines.push(`Metadata: ${diff.metadata.length} setting(s) changed`, ...formatChanges(diff.metadata, "  ~ "));
+  }
+
+  return lines.length > 0 ? lines.join("\n") : "No differences.";
+}
@@ -0,0 +1,109 @@
+import { randomUUID } from "node:crypto";
+import { chmod, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ResumeData } from "./types.js";
+
+export interface ResumeRevision {
+  id: string;
+  resumeId: string;
+  createdAt: string;
+  // What the change made after this snapshot was (e.g. "Add experience item")
+  description: string;
+  data: ResumeData;
+}
+
+export interface ResumeHistoryOptions {
+  // Maximum snapshots kept per resume; the oldest are dropped first
+  limit?: number;
+  // Directory to persist history in, one JSON file per resume. In-memory only if omitted.
+  directory?: string;
+}
+
+// Bounded, per-resume stack of ResumeData snapshots taken before each mutation
+export class ResumeHistory {
+  private readonly limit: number;
+  private readonly directory: string | null;
+  private revisions = new Map<string, ResumeRevision[]>();
+
+  constructor(options: ResumeHistoryOptions = {}) {
+    this.limit = Math.max(1, options.limit ?? 20);
+    this.directory = options.directory ?? null;
+  }
+
+  async record(resumeId: string, data: ResumeData, description: string): Promise<ResumeRevision> {
+    const revisions = await this.load(resumeId);
+    const revision: ResumeRevision = {
+      id: randomUUID().slice(0, 8),
+      resumeId,
+      createdAt: new Date().toISOString(),
+      description,
+      data: structuredClone(data),
+    };
+    revisions.push(revision);
+    revisions.splice(0, Math.max(0, revisions.length - this.limit));
+    await this.save(resumeId);
+    return revision;
+  }
+
+  // Newest first
+  async list(resumeId: string): Promise<ResumeRevision[]> {
+    return [...(await this.load(resumeId))].reverse();
+  }
+
+  async get(resumeId: string, revisionId: string): Promise<ResumeRevision | undefined> {
+    return (await this.load(resumeId)).find((revision) => revision.id === revisionId);
+  }
+
+  async latest(resumeId: string): Promise<ResumeRevision | undefined> {
+    const revisions = await this.load(resumeId);
+    return revisions[revisions.length - 1];
+  }
+
+  async remove(resumeId: string, revisionId: string): Promise<void> {
+    const revisions = await this.load(resumeId);
+    const index = revisions.findIndex((revision) => revision.id === revisionId);
+    if (index !== -1) {
+      revisions.splice(index, 1);
+      await this.save(resumeId);
+    }
+  }
+
+  private async load(resumeId: string): Promise<ResumeRevision[]> {
+    let revisions = this.revisions.get(resumeId);
+    if (revisions) return revisions;
+
+    revisions = [];
+    if (this.directory) {
+      try {
+        revisions = JSON.parse(await readFile(this.filePath(resumeId), "utf8")) as ResumeRevision[];
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+    this.revisions.set(resumeId, revisions);
+    return revisions;
+  }
+
+  private async save(resumeId: string): Promise<void> {
+    if (!this.directory) return;
+    // Snapshots hold personal data, so only the owner may read them. Modes only apply to
+    // newly created files, so the directory is tightened and the file is always written
+    // fresh and renamed over the old one, which also never leaves it half written.
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    await chmod(this.directory, 0o700);
+    const path = this.filePath(resumeId);
+    const temporary = `${path}.${randomUUID().slice(0, 8)}.tmp`;
+    try {
+      await writeFile(temporary, JSON.stringify(this.revisions.get(resumeId) ?? []), { mode: 0o600, flag: "wx" });
+      await rename(temporary, path);
+    } catch (error) {
+      await rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  private filePath(resumeId: string): string {
+    // Resume ids are cuid-like, but never let one escape the directory
+    return join(this.directory!, `${resumeId.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+  }
+}
@@ -0,0 +1,222 @@
+// Helpers for the HTML fragments Reactive Resume stores in descriptions and summaries
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// A paragraph per line of text, followed by a bulleted list, as the editor would produce
+export function textToHtml(text: string | undefined, bullets: string[] = []): string {
+  const paragraphs = (text ?? "")
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => `<p>${escapeHtml(line)}</p>`);
+  const items = bullets.map((bullet) => bullet.trim()).filter(Boolean);
+  const list = items.length > 0 ? `<ul>${items.map((item) => `<li><p>${escapeHtml(item)}</p></li>`).join("")}</ul>` : "";
+  return paragraphs.join("") + list;
+}
+
+// Tolerant parsing of the small HTML subset the rich text editor produces
+
+export type HtmlNode =
+  | { type: "text"; text: string }
+  | { type: "element"; tag: string; attributes: Record<string, string>; children: HtmlNode[] };
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link", "wbr"]);
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "header", "footer", "blockquote", "pre", "table", "tr",
+  "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "hr",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ndash: "–", mdash: "—",
+  hellip: "…", bull: "•", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", middot: "·", copy: "©",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+// Unclosed elements are closed at the end of their parent; stray closing tags are ignored
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlNode[] = [];
+  const stack: Array<{ tag: string; children: HtmlNode[] }> = [{ tag: "", children: root }];
+  const tokens = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+
+  for (const match of html.matchAll(tokens)) {
+    const [token, closing, rawTag, attributes] = match;
+    const current = stack[stack.length - 1];
+    if (token.startsWith("<!--")) continue;
+    if (!rawTag) {
+      current.children.push({ type: "text", text: decodeEntities(token) });
+      continue;
+    }
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const index = stack.map((entry) => entry.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+    const element: HtmlNode = { type: "element", tag, attributes: parseAttributes(attributes), children: [] };
+    current.children.push(element);
+    if (!VOID_TAGS.has(tag) && !attributes.trimEnd().endsWith("/")) {
+      stack.push({ tag, children: element.children });
+    }
+  }
+  return root;
+}
+
+export type TextStyle = "text" | "markdown";
+
+const INLINE_MARKDOWN: Record<string, string> = { strong: "**", b: "**", em: "_", i: "_", s: "~~", del: "~~", code: "`" };
+
+// Characters that would otherwise be read as Markdown syntax
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*[\]]/g, "\\$&").replace(/(^|\s)_|_(?=\s|$)/g, (match) => match.replace("_", "\\_"));
+}
+
+// Wrap inline text in a marker, keeping surrounding whitespace outside it ("** a **" is not bold)
+function wrapInline(text: string, marker: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+// Renders nodes as blocks separated by blank lines, as plain text or Markdown.
+// Lists keep one line per item.
+class HtmlRenderer {
+  private blocks: string[] = [];
+  private inline = "";
+
+  constructor(private readonly style: TextStyle) {}
+
+  render(nodes: HtmlNode[]): string {
+    this.walk(nodes, false);
+    this.flush();
+    return this.blocks.join("\n\n");
+  }
+
+  private renderChildren(nodes: HtmlNode[]): string {
+    return new HtmlRenderer(this.style).render(nodes);
+  }
+
+  private walk(nodes: HtmlNode[], preformatted: boolean): void {
+    for (const node of nodes) {
+      if (node.type === "element") {
+        this.element(node, preformatted);
+      } else if (preformatted) {
+        this.inline += node.text;
+      } else {
+        let text = node.text.replace(/\s+/g, " ");
+        if (text.startsWith(" ") && /\s$/.test(this.inline)) text = text.slice(1);
+        this.inline += this.style === "markdown" ? escapeMarkdown(text) : text;
+      }
+    }
+  }
+
+  private element(node: Extract<HtmlNode, { type: "element" }>, preformatted: boolean): void {
+    const { tag, children } = node;
+    const markdown = this.style === "markdown";
+    if (tag === "br") {
+      this.inline += "\n";
+    } else if (tag === "ul" || tag === "ol") {
+      this.flush();
+      const items = children.filter((child) => child.type === "element" && child.tag === "li");
+      const lines = items.flatMap((item, index) => {
+        const marker = tag === "ol" ? `${index + 1}. ` : "- ";
+        const text = this.renderChildren((item as { children: HtmlNode[] }).children);
+        return text
+          .split("\n")
+          .filter((line) => line.trim() !== "")
+          .map((line, lineIndex) => (lineIndex === 0 ? marker : " ".repeat(marker.length)) + line);
+      });
+      if (lines.length > 0) this.blocks.push(lines.join("\n"));
+    } else if (tag === "a") {
+      const text = this.renderChildren(children);
+      const href = node.attributes.href ?? "";
+      if (markdown && href) {
+        this.inline += `[${text || href}](${href.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0").toUpperCase()}`)})`;
+      } else {
+        this.inline += href && href !== text && !href.startsWith("mailto:") ? `${text} (${href})` : text;
+      }
+    } else if (markdown && tag in INLINE_MARKDOWN && !preformatted) {
+      this.inline += wrapInline(this.renderChildren(children).replace(/\n+/g, " "), INLINE_MARKDOWN[tag]);
+    } else if (markdown && /^h[1-6]$/.test(tag)) {
+      this.flush();
+      const text = this.renderChildren(children).replace(/\n+/g, " ");
+      if (text) this.blocks.push(`${"#".repeat(Number(tag[1]))} ${text}`);
+    } else if (markdown && tag === "blockquote") {
+      this.flush();
+      const text = this.renderChildren(children);
+      if (text) this.blocks.push(text.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n"));
+    } else if (markdown && tag === "pre") {
+      this.flush();
+      this.blocks.push(`\`\`\`\n${new HtmlRenderer("text").render(children)}\n\`\`\``);
+    } else if (tag === "script" || tag === "style") {
+      return;
+    } else if (BLOCK_TAGS.has(tag)) {
+      this.flush();
+      this.walk(children, preformatted || tag === "pre");
+      this.flush();
+    } else {
+      this.walk(children, preformatted);
+    }
+  }
+
+  private flush(): void {
+    const text = this.inline
+      .split("\n")
+      .map((line) => line.trim())
+      .join(this.style === "markdown" ? "  \n" : "\n")
+      .replace(/^(\s*\n)+|(\s*\n)+$/g, "");
+    if (text.trim()) this.blocks.push(text);
+    this.inline = "";
+  }
+}
+
+// Plain text for an HTML fragment: paragraphs separated by blank lines, list items as "- " lines
+export function htmlToText(html: string): string {
+  return new HtmlRenderer("text").render(parseHtml(html));
+}
+
+export function htmlToMarkdown(html: string): string {
+  return new HtmlRenderer("markdown").render(parseHtml(html));
+}
+
+// Split a description into its prose and the items of its top-level lists
+// (the "summary" and "highlights" of formats that keep them apart)
+export function splitHtmlDescription(html: string): { text: string; highlights: string[] } {
+  const prose: HtmlNode[] = [];
+  const highlights: string[] = [];
+  for (const node of parseHtml(html)) {
+    if (node.type === "element" && (node.tag === "ul" || node.tag === "ol")) {
+      for (const item of node.children) {
+        if (item.type !== "element" || item.tag !== "li") continue;
+        const text = new HtmlRenderer("text").render(item.children).replace(/\s*\n+\s*/g, " ");
+        if (text) highlights.push(text);
+      }
+    } else {
+      prose.push(node);
+    }
+  }
+  return { text: new HtmlRenderer("text").render(prose), highlights };
+}
@@ -0,0 +1,153 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Streamable HTTP transport for running one shared server: every MCP session gets
+// its own transport and its own McpServer from the factory
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Endpoint path, e.g. "/mcp"
+  path: string;
+  // Required as "Authorization: Bearer <token>" on every request when set
+  token?: string;
+  // Sessions with no request for this long are closed (clients may vanish without closing them)
+  idleTimeoutMs?: number;
+  // Largest accepted request body
+  maxBodyBytes?: number;
+  // Called when a session ends, to drop its state
+  onSessionClosed?: (sessionId: string) => void;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60_000;
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage, limit: number): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > limit) throw new BodyTooLargeError(limit);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > limit) throw new BodyTooLargeError(limit);
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+function hasToken(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export function startHttpServer(createServer: () => McpServer, options: HttpServerOptions): Promise<Server> {
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const sessions = new Map<string, { transport: StreamableHTTPServerTransport; lastActive: number; openRequests: number }>();
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== options.path) {
+      sendJsonRpcError(res, 404, `Not found. The MCP endpoint is ${options.path}`);
+      return;
+    }
+    if (options.token && !hasToken(req, options.token)) {
+      sendJsonRpcError(res, 401, "Missing or invalid bearer token", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req, maxBodyBytes);
+      } catch (error) {
+        if (error instanceof BodyTooLargeError) {
+          sendJsonRpcError(res, 413, error.message, { Connection: "close" });
+        } else {
+          sendJsonRpcError(res, 400, "Invalid JSON body");
+        }
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, `Unknown or expired session ${sessionId}`);
+        return;
+      }
+      // A session with a request in flight (such as an open SSE stream) is not idle
+      session.openRequests++;
+      res.once("close", () => {
+        session.openRequests--;
+        session.lastActive = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Missing mcp-session-id header; start a session with an initialize request");
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, lastActive: Date.now(), openRequests: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (!transport.sessionId) return;
+      sessions.delete(transport.sessionId);
+      options.onSessionClosed?.(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const session of sessions.values()) {
+      if (session.openRequests === 0 && session.lastActive < cutoff) {
+        session.transport.close().catch((error) => console.error("Error closing idle MCP session:", error));
+      }
+    }
+  }, Math.min(idleTimeoutMs, 60_000));
+  sweep.unref();
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    });
+  });
+  httpServer.once("close", () => clearInterval(sweep));
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve(httpServer));
+  });
+}
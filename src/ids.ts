@@ -0,0 +1,12 @@
+// Generate cuid2-compatible IDs (lowercase alphanumeric, ~24 chars)
+export function generateId(): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  const length = 24;
+  let result = "";
+  const randomValues = new Uint8Array(length);
+  crypto.getRandomValues(randomValues);
+  for (let i = 0; i < length; i++) {
+    result += chars[randomValues[i] % chars.length];
+  }
+  return result;
+}
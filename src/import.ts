@@ -0,0 +1,133 @@
+import { itemLabel } from "./diff.js";
+import type { BasicsUpdates, ItemSectionName, ResumeData, SectionItemMap } from "./types.js";
+
+// Content converted from another resume format, ready to be applied to resume data
+
+export interface ResumeImport {
+  basics: BasicsUpdates;
+  // Picture URL
+  picture: string | null;
+  // HTML for the summary section
+  summary: string | null;
+  sections: { [S in ItemSectionName]?: SectionItemMap[S][] };
+  // Source fields with no Reactive Resume equivalent, e.g. "work[0].description"
+  unmapped: string[];
+}
+
+// "replace": imported sections replace the existing items and basics are overwritten.
+// "append": imported items are added after the existing ones.
+// "merge": like append, but items that already exist are skipped and only empty basics
+// fields are filled, so importing the same source twice changes nothing.
+export type ImportMode = "replace" | "append" | "merge";
+
+export interface SkippedImportItem {
+  section: ItemSectionName;
+  label: string;
+}
+
+// Fields identifying the same entry across imports, per section
+const IDENTITY_FIELDS: Record<ItemSectionName, string[]> = {
+  experience: ["company", "position"],
+  education: ["school", "degree"],
+  skills: ["name"],
+  projects: ["name"],
+  certifications: ["title", "issuer"],
+  languages: ["language"],
+  awards: ["title", "awarder"],
+  publications: ["title"],
+  volunteer: ["organization"],
+  interests: ["name"],
+  references: ["name"],
+  profiles: ["network"],
+};
+
+function identity(section: ItemSectionName, item: object): string {
+  const fields = item as Record<string, unknown>;
+  return IDENTITY_FIELDS[section]
+    .map((key) => (typeof fields[key] === "string" ? (fields[key] as string) : ""))
+    .map((value) => value.trim().toLowerCase().replace(/\s+/g, " "))
+    .join("\u0000");
+}
+
+function applyBasics(data: ResumeData, imported: ResumeImport, mode: ImportMode): ResumeData["basics"] {
+  const current = data.basics;
+  if (mode !== "merge") {
+    return {
+      ...current,
+      ...imported.basics,
+      url: { ...current.url, ...imported.basics.url },
+      picture: imported.picture ? { ...current.picture, url: imported.picture } : current.picture,
+    };
+  }
+
+  const basics = { ...current, url: { ...current.url }, picture: { ...current.picture } };
+  for (const key of ["name", "headline", "email", "phone", "location"] as const) {
+    const value = imported.basics[key];
+    if (value && !current[key].trim()) basics[key] = value;
+  }
+  if (imported.basics.url?.href && !current.url.href.trim()) basics.url = { ...current.url, ...imported.basics.url };
+  if (imported.picture && !current.picture.url.trim()) basics.picture.url = imported.picture;
+  return basics;
+}
+
+export function applyResumeImport(
+  data: ResumeData,
+  imported: ResumeImport,
+  mode: ImportMode
+): { data: ResumeData; skipped: SkippedImportItem[] } {
+  const skipped: SkippedImportItem[] = [];
+  const sections = { ...data.sections } as Record<string, unknown>;
+
+  if (imported.summary !== null) {
+    const existing = data.sections.summary.content;
+    const hasExisting = existing.trim() !== "";
+    sections.summary = {
+      ...data.sections.summary,
+      content:
+        mode === "replace" || !hasExisting
+          ? imported.summary
+          : mode === "append"
+            ? existing + imported.summary
+            : existing,
+    };
+  }
+
+  for (const [name, items] of Object.entries(imported.sections) as Array<[ItemSectionName, object[]]>) {
+    const section = data.sections[name];
+    let added = items;
+    if (mode === "merge") {
+      const seen = new Set(section.items.map((item) => identity(name, item)));
+      added = items.filter((item) => {
+        const key = identity(name, item);
+        if (seen.has(key)) {
+          skipped.push({ section: name, label: itemLabel(item as Record<string, unknown>) });
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    }
+    sections[name] = { ...section, items: mode === "replace" ? added : [...section.items, ...added] };
+  }
+
+  return {
+    data: { ...data, basics: applyBasics(data, imported, mode), sections: sections as unknown as ResumeData["sections"] },
+    skipped,
+  };
+}
+
+// Summary of what an import carries and what it could not map
+export function describeResumeImport(imported: ResumeImport, skipped: SkippedImportItem[] = []): string {
+  const lines = Object.entries(imported.sections).map(([name, items]) => `  - ${name}: ${items.length} item(s)`);
+  if (Object.keys(imported.basics).length > 0 || imported.picture) lines.unshift("  - basics");
+  if (imported.summary) lines.push("  - summary");
+  let text = `Imported:\n${lines.join("\n") || "  (nothing)"}`;
+  if (skipped.length > 0) {
+    text += `\nAlready present, skipped (${skipped.length}):\n${skipped.map((item) => `  - ${item.section}: ${item.label}`).join("\n")}`;
+  }
+  text +=
+    imported.unmapped.length > 0
+      ? `\nFields that could not be mapped (${imported.unmapped.length}):\n${imported.unmapped.map((path) => `  - ${path}`).join("\n")}`
+      : "\nAll fields were mapped.";
+  return text;
+}
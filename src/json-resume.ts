@@ -0,0 +1,562 @@
+import { RxResumeApiClient } from "./api-client.js";
+import { htmlToText, splitHtmlDescription, textToHtml } from "./html.js";
+import { formatDateText, formatPartialDate, formatPeriod, parseDate, parsePeriod } from "./period.js";
+import type { ResumeImport } from "./import.js";
+import type { BasicsUpdates, ItemSectionName, ResumeData, SectionItemMap } from "./types.js";
+
+// Conversion between Reactive Resume data and JSON Resume v1 (https://jsonresume.org/schema)
+
+export interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResumeBasics {
+  name?: string;
+  label?: string;
+  image?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: JsonResumeLocation;
+  profiles?: JsonResumeProfile[];
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  location?: string;
+  description?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeVolunteer {
+  organization?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+}
+
+export interface JsonResumeAward {
+  title?: string;
+  date?: string;
+  awarder?: string;
+  summary?: string;
+}
+
+export interface JsonResumeCertificate {
+  name?: string;
+  date?: string;
+  url?: string;
+  issuer?: string;
+}
+
+export interface JsonResumePublication {
+  name?: string;
+  publisher?: string;
+  releaseDate?: string;
+  url?: string;
+  summary?: string;
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JsonResumeLanguage {
+  language?: string;
+  fluency?: string;
+}
+
+export interface JsonResumeInterest {
+  name?: string;
+  keywords?: string[];
+}
+
+export interface JsonResumeReference {
+  name?: string;
+  reference?: string;
+}
+
+export interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+  keywords?: string[];
+  startDate?: string;
+  endDate?: string;
+  url?: string;
+  roles?: string[];
+  entity?: string;
+  type?: string;
+}
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: JsonResumeBasics;
+  work?: JsonResumeWork[];
+  volunteer?: JsonResumeVolunteer[];
+  education?: JsonResumeEducation[];
+  awards?: JsonResumeAward[];
+  certificates?: JsonResumeCertificate[];
+  publications?: JsonResumePublication[];
+  skills?: JsonResumeSkill[];
+  languages?: JsonResumeLanguage[];
+  interests?: JsonResumeInterest[];
+  references?: JsonResumeReference[];
+  projects?: JsonResumeProject[];
+  meta?: Record<string, unknown>;
+}
+
+// Import
+
+type Entry = Record<string, unknown>;
+
+function text(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  return typeof value === "number" ? String(value) : "";
+}
+
+function texts(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+}
+
+function website(value: unknown) {
+  return { label: "", url: text(value) };
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return typeof value === "object" && Object.values(value).every(isEmpty);
+}
+
+interface SectionMapping {
+  target: ItemSectionName;
+  // Source fields the mapping consumes; anything else present is reported as unmapped
+  fields: string[];
+  map: (entry: Entry) => Record<string, unknown>;
+}
+
+const SECTION_MAPPINGS: Record<string, SectionMapping> = {
+  work: {
+    target: "experience",
+    fields: ["name", "position", "location", "url", "startDate", "endDate", "summary", "highlights"],
+    map: (entry) => ({
+      company: text(entry.name),
+      position: text(entry.position),
+      location: text(entry.location),
+      period: formatPeriod(text(entry.startDate), text(entry.endDate)),
+      website: website(entry.url),
+      description: textToHtml(text(entry.summary), texts(entry.highlights)),
+    }),
+  },
+  volunteer: {
+    target: "volunteer",
+    fields: ["organization", "url", "startDate", "endDate", "summary", "highlights"],
+    map: (entry) => ({
+      organization: text(entry.organization),
+      period: formatPeriod(text(entry.startDate), text(entry.endDate)),
+      website: website(entry.url),
+      description: textToHtml(text(entry.summary), texts(entry.highlights)),
+    }),
+  },
+  education: {
+    target: "education",
+    fields: ["institution", "url", "area", "studyType", "startDate", "endDate", "score", "courses"],
+    map: (entry) => ({
+      school: text(entry.institution),
+      degree: text(entry.studyType),
+      area: text(entry.area),
+      grade: text(entry.score),
+      period: formatPeriod(text(entry.startDate), text(entry.endDate)),
+      website: website(entry.url),
+      description: textToHtml(undefined, texts(entry.courses)),
+    }),
+  },
+  awards: {
+    target: "awards",
+    fields: ["title", "date", "awarder", "summary"],
+    map: (entry) => ({
+      title: text(entry.title),
+      awarder: text(entry.awarder),
+      date: formatDateText(text(entry.date)),
+      description: textToHtml(text(entry.summary)),
+    }),
+  },
+  certificates: {
+    target: "certifications",
+    fields: ["name", "date", "url", "issuer"],
+    map: (entry) => ({
+      title: text(entry.name),
+      issuer: text(entry.issuer),
+      date: formatDateText(text(entry.date)),
+      website: website(entry.url),
+    }),
+  },
+  publications: {
+    target: "publications",
+    fields: ["name", "publisher", "releaseDate", "url", "summary"],
+    map: (entry) => ({
+      title: text(entry.name),
+      publisher: text(entry.publisher),
+      date: formatDateText(text(entry.releaseDate)),
+      website: website(entry.url),
+      description: textToHtml(text(entry.summary)),
+    }),
+  },
+  skills: {
+    target: "skills",
+    fields: ["name", "level", "keywords"],
+    map: (entry) => ({ name: text(entry.name), proficiency: text(entry.level), keywords: texts(entry.keywords) }),
+  },
+  languages: {
+    target: "languages",
+    fields: ["language", "fluency"],
+    map: (entry) => ({ language: text(entry.language), fluency: text(entry.fluency) }),
+  },
+  interests: {
+    target: "interests",
+    fields: ["name", "keywords"],
+    map: (entry) => ({ name: text(entry.name), keywords: texts(entry.keywords) }),
+  },
+  references: {
+    target: "references",
+    fields: ["name", "reference"],
+    map: (entry) => ({ name: text(entry.name), description: textToHtml(text(entry.reference)) }),
+  },
+  projects: {
+    target: "projects",
+    fields: ["name", "description", "highlights", "startDate", "endDate", "url"],
+    map: (entry) => ({
+      name: text(entry.name),
+      period: formatPeriod(text(entry.startDate), text(entry.endDate)),
+      website: website(entry.url),
+      description: textToHtml(text(entry.description), texts(entry.highlights)),
+    }),
+  },
+};
+
+function isEntry(value: unknown): value is Entry {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function reportUnmapped(entry: Entry, fields: string[], path: string, unmapped: string[]): void {
+  for (const [key, value] of Object.entries(entry)) {
+    if (!fields.includes(key) && !isEmpty(value)) unmapped.push(`${path}.${key}`);
+  }
+}
+
+function entries(document: Entry, key: string): Entry[] {
+  const value = document[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(isEntry)) {
+    throw new Error(`JSON Resume field "${key}" must be an array of objects`);
+  }
+  return value;
+}
+
+function formatLocation(location: unknown): string {
+  if (!isEntry(location)) return "";
+  return [location.city, location.region, location.countryCode].map(text).filter(Boolean).join(", ");
+}
+
+// Convert a JSON Resume v1 document into Reactive Resume basics, summary and section items
+export function fromJsonResume(document: unknown, generateId: () => string): ResumeImport {
+  if (!isEntry(document)) {
+    throw new Error("A JSON Resume document must be a JSON object");
+  }
+  const unmapped: string[] = [];
+  const result: ResumeImport = { basics: {}, picture: null, summary: null, sections: {}, unmapped };
+
+  const basics = document.basics;
+  if (basics !== undefined && !isEntry(basics)) {
+    throw new Error('JSON Resume field "basics" must be an object');
+  }
+  if (basics) {
+    const updates: BasicsUpdates = {
+      name: text(basics.name),
+      headline: text(basics.label),
+      email: text(basics.email),
+      phone: text(basics.phone),
+      location: formatLocation(basics.location),
+    };
+    result.basics = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== ""));
+    if (text(basics.url)) result.basics.url = { label: "", href: text(basics.url) };
+    if (text(basics.image)) result.picture = text(basics.image);
+    if (text(basics.summary)) result.summary = textToHtml(text(basics.summary));
+
+    reportUnmapped(
+      basics,
+      ["name", "label", "image", "email", "phone", "url", "summary", "location", "profiles"],
+      "basics",
+      unmapped
+    );
+    if (isEntry(basics.location)) {
+      reportUnmapped(basics.location, ["city", "region", "countryCode"], "basics.location", unmapped);
+    }
+
+    const profiles = entries(basics, "profiles");
+    result.sections.profiles = profiles.map((profile, index) => {
+      reportUnmapped(profile, ["network", "username", "url"], `basics.profiles[${index}]`, unmapped);
+      return RxResumeApiClient.buildSectionItem("profiles", generateId(), {
+        icon: text(profile.network).toLowerCase().replace(/[^a-z0-9]/g, ""),
+        network: text(profile.network),
+        username: text(profile.username),
+        website: website(profile.url),
+      });
+    });
+  }
+
+  for (const [key, mapping] of Object.entries(SECTION_MAPPINGS)) {
+    const items = entries(document, key).map((entry, index) => {
+      reportUnmapped(entry, mapping.fields, `${key}[${index}]`, unmapped);
+      return RxResumeApiClient.buildSectionItem(mapping.target, generateId(), mapping.map(entry));
+    });
+    (result.sections as Record<string, unknown[]>)[mapping.target] = items;
+  }
+
+  for (const key of Object.keys(document)) {
+    if (key !== "$schema" && key !== "basics" && !(key in SECTION_MAPPINGS) && !isEmpty(document[key])) {
+      unmapped.push(key);
+    }
+  }
+
+  // Drop sections the document did not fill so they are left untouched
+  for (const [name, items] of Object.entries(result.sections)) {
+    if (items.length === 0) delete result.sections[name as ItemSectionName];
+  }
+  return result;
+}
+
+// Export
+
+export const JSON_RESUME_SCHEMA_URL =
+  "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+export interface JsonResumeExport {
+  document: JsonResume;
+  // Content with no JSON Resume equivalent that was left out, e.g. custom sections
+  skipped: string[];
+}
+
+// Drop empty strings and arrays: the schema requires dates and URLs to be well-formed when present
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined && entry !== "" && !(Array.isArray(entry) && entry.length === 0))
+  ) as T;
+}
+
+// JSON Resume dates are ISO 8601, so text that does not parse as a date (e.g. "Summer 2019")
+// cannot be kept and is reported in skipped instead
+function periodDates(period: string, label: string, skipped: string[]): { startDate?: string; endDate?: string } {
+  const parsed = parsePeriod(period);
+  if (period.trim() && (!parsed.start || (!parsed.end && !parsed.current))) {
+    skipped.push(`${label} period "${period.trim()}" (not a recognizable date)`);
+  }
+  return {
+    startDate: parsed.start ? formatPartialDate(parsed.start) : undefined,
+    endDate: parsed.end && !parsed.current ? formatPartialDate(parsed.end) : undefined,
+  };
+}
+
+function isoDate(text: string, label: string, skipped: string[]): string | undefined {
+  const date = parseDate(text);
+  if (!date && text.trim()) skipped.push(`${label} date "${text.trim()}" (not a recognizable date)`);
+  return date ? formatPartialDate(date) : undefined;
+}
+
+// Content fields with no JSON Resume equivalent are reported rather than silently dropped.
+// Presentation-only fields (icons, link labels, picture styling) are not reported.
+function reportDropped(label: string, fields: Record<string, string>, skipped: string[]): void {
+  for (const [field, value] of Object.entries(fields)) {
+    if (value.trim()) skipped.push(`${label} ${field}`);
+  }
+}
+
+// The schema types URLs as uri and email addresses as email, so free text that is
+// neither (e.g. "github.com/jane") is left out and reported
+function uri(value: string, label: string, skipped: string[]): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (URL.canParse(trimmed)) return trimmed;
+  skipped.push(`${label} url "${trimmed}" (not a valid URL)`);
+  return undefined;
+}
+
+function email(value: string, label: string, skipped: string[]): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) return trimmed;
+  skipped.push(`${label} email "${trimmed}" (not a valid email address)`);
+  return undefined;
+}
+
+// Convert resume data into a JSON Resume v1 document. Hidden sections and items are
+// left out unless includeHidden is set.
+export function toJsonResume(data: ResumeData, options: { includeHidden?: boolean } = {}): JsonResumeExport {
+  const skipped: string[] = [];
+  const items = <S extends ItemSectionName>(name: S): SectionItemMap[S][] => {
+    const section = data.sections[name];
+    if (!section.visible && !options.includeHidden) return [];
+    return (section.items as SectionItemMap[S][]).filter((item) => options.includeHidden || !item.hidden);
+  };
+  const { basics, sections } = data;
+  const summary = sections.summary.visible || options.includeHidden ? htmlToText(sections.summary.content) : "";
+  for (const field of basics.customFields) {
+    if (field.value.trim()) skipped.push(`basics custom field "${field.name || field.id}"`);
+  }
+
+  const document: JsonResume = {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: compact({
+      name: basics.name,
+      label: basics.headline,
+      image: basics.picture.url,
+      email: email(basics.email, "basics", skipped),
+      phone: basics.phone,
+      url: uri(basics.url.href, "basics", skipped),
+      summary,
+      // Reactive Resume keeps location as free text; themes generally show location.city
+      location: basics.location ? { city: basics.location } : undefined,
+      profiles: items("profiles").map((item) => {
+        const label = `profile "${item.network || item.id}"`;
+        return compact({ network: item.network, username: item.username, url: uri(item.website.url, label, skipped) });
+      }),
+    }),
+    work: items("experience").map((item) => {
+      const label = `experience "${item.company || item.id}"`;
+      const { text, highlights } = splitHtmlDescription(item.description);
+      return compact({
+        name: item.company,
+        position: item.position,
+        location: item.location,
+        url: uri(item.website.url, label, skipped),
+        ...periodDates(item.period, label, skipped),
+        summary: text,
+        highlights,
+      });
+    }),
+    volunteer: items("volunteer").map((item) => {
+      const label = `volunteer "${item.organization || item.id}"`;
+      const { text, highlights } = splitHtmlDescription(item.description);
+      reportDropped(label, { location: item.location }, skipped);
+      return compact({
+        organization: item.organization,
+        url: uri(item.website.url, label, skipped),
+        ...periodDates(item.period, label, skipped),
+        summary: text,
+        highlights,
+      });
+    }),
+    education: items("education").map((item) => {
+      const label = `education "${item.school || item.id}"`;
+      const { text, highlights } = splitHtmlDescription(item.description);
+      if (text) skipped.push(`${label} description text (only list items map to courses)`);
+      reportDropped(label, { location: item.location }, skipped);
+      return compact({
+        institution: item.school,
+        url: uri(item.website.url, label, skipped),
+        area: item.area,
+        studyType: item.degree,
+        ...periodDates(item.period, label, skipped),
+        score: item.grade,
+        courses: highlights,
+      });
+    }),
+    awards: items("awards").map((item) => {
+      const label = `award "${item.title || item.id}"`;
+      reportDropped(label, { website: item.website.url }, skipped);
+      return compact({
+        title: item.title,
+        date: isoDate(item.date, label, skipped),
+        awarder: item.awarder,
+        summary: htmlToText(item.description),
+      });
+    }),
+    certificates: items("certifications").map((item) => {
+      const label = `certification "${item.title || item.id}"`;
+      reportDropped(label, { description: htmlToText(item.description) }, skipped);
+      return compact({
+        name: item.title,
+        date: isoDate(item.date, label, skipped),
+        url: uri(item.website.url, label, skipped),
+        issuer: item.issuer,
+      });
+    }),
+    publications: items("publications").map((item) => {
+      const label = `publication "${item.title || item.id}"`;
+      return compact({
+        name: item.title,
+        publisher: item.publisher,
+        releaseDate: isoDate(item.date, label, skipped),
+        url: uri(item.website.url, label, skipped),
+        summary: htmlToText(item.description),
+      });
+    }),
+    // A level rating is only lost when there is no proficiency or fluency text to carry it
+    skills: items("skills").map((item) => {
+      if (!item.proficiency.trim() && item.level > 0) skipped.push(`skill "${item.name || item.id}" level`);
+      return compact({ name: item.name, level: item.proficiency, keywords: item.keywords });
+    }),
+    languages: items("languages").map((item) => {
+      if (!item.fluency.trim() && item.level > 0) skipped.push(`language "${item.language || item.id}" level`);
+      return compact({ language: item.language, fluency: item.fluency });
+    }),
+    interests: items("interests").map((item) => compact({ name: item.name, keywords: item.keywords })),
+    references: items("references").map((item) => {
+      reportDropped(
+        `reference "${item.name || item.id}"`,
+        { position: item.position, phone: item.phone, website: item.website.url },
+        skipped
+      );
+      return compact({ name: item.name, reference: htmlToText(item.description) });
+    }),
+    projects: items("projects").map((item) => {
+      const label = `project "${item.name || item.id}"`;
+      const { text, highlights } = splitHtmlDescription(item.description);
+      return compact({
+        name: item.name,
+        description: text,
+        highlights,
+        ...periodDates(item.period, label, skipped),
+        url: uri(item.website.url, label, skipped),
+      });
+    }),
+  };
+
+  for (const [id, section] of Object.entries(sections.custom ?? {})) {
+    if (section.visible || options.includeHidden) skipped.push(`custom section "${section.name || id}"`);
+  }
+  return { document: compact(document), skipped };
+}
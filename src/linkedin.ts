@@ -0,0 +1,251 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { RxResumeApiClient } from "./api-client.js";
+import { textToHtml } from "./html.js";
+import type { ResumeImport } from "./import.js";
+import { formatDateText, formatPeriod } from "./period.js";
+import type { ItemSectionName, SectionItemUpdates } from "./types.js";
+import { readZip } from "./zip.js";
+
+// Conversion of a LinkedIn data export ("Get a copy of your data"), either the ZIP
+// archive or a directory of its extracted CSV files
+
+type Row = Record<string, string>;
+
+// CSV files read from the export, keyed by file name, with the columns each mapping uses
+const LINKEDIN_FILES: Record<string, string[]> = {
+  "Profile.csv": ["First Name", "Last Name", "Headline", "Summary", "Geo Location", "Websites", "Twitter Handles"],
+  "Positions.csv": ["Company Name", "Title", "Description", "Location", "Started On", "Finished On"],
+  "Education.csv": ["School Name", "Degree Name", "Start Date", "End Date", "Notes", "Activities"],
+  "Skills.csv": ["Name"],
+  "Certifications.csv": ["Name", "Url", "Authority", "Started On", "License Number"],
+  "Languages.csv": ["Name", "Proficiency"],
+  "Projects.csv": ["Title", "Description", "Url", "Started On", "Finished On"],
+};
+
+export type LinkedInExport = Record<string, Row[]>;
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// Some export files start with a "Notes:" preamble, so the header is the first row
+// containing one of the expected columns. Expected columns missing from the file read as "".
+function toRows(text: string, columns: string[]): Row[] {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((cells) => cells.some((cell) => columns.includes(cell.trim())));
+  if (headerIndex === -1) return [];
+  const header = rows[headerIndex].map((cell) => cell.trim());
+  return rows
+    .slice(headerIndex + 1)
+    .map((cells) => ({
+      ...Object.fromEntries(columns.map((column) => [column, ""])),
+      ...Object.fromEntries(header.map((column, index) => [column, (cells[index] ?? "").trim()])),
+    }));
+}
+
+function exportFileName(path: string): string | undefined {
+  const name = basename(path).toLowerCase();
+  return Object.keys(LINKEDIN_FILES).find((file) => file.toLowerCase() === name);
+}
+
+// Read the known CSV files from a LinkedIn export ZIP, a directory of extracted files or a single CSV
+export async function readLinkedInExport(path: string): Promise<LinkedInExport> {
+  const info = await stat(path);
+  if (!info.isDirectory()) {
+    return parseLinkedInExport(await readFile(path), basename(path));
+  }
+
+  const files: Array<{ file: string; text: string }> = [];
+  for (const entry of await readdir(path, { recursive: true })) {
+    const file = exportFileName(entry);
+    if (file) files.push({ file, text: await readFile(join(path, entry), "utf8") });
+  }
+  return collectExportFiles(files, path);
+}
+
+// Parse an uploaded LinkedIn export: the ZIP archive, or a single CSV file named filename
+export function parseLinkedInExport(content: Buffer, filename: string): LinkedInExport {
+  const files: Array<{ file: string; text: string }> = [];
+  if (content.subarray(0, 2).toString("latin1") === "PK") {
+    for (const entry of readZip(content, (name) => exportFileName(name) !== undefined)) {
+      files.push({ file: exportFileName(entry.name)!, text: entry.data.toString("utf8") });
+    }
+  } else {
+    const file = exportFileName(filename);
+    if (!file) {
+      throw new Error(
+        `${basename(filename)} is not a LinkedIn export file. Expected a ZIP archive, a directory or one of: ${Object.keys(LINKEDIN_FILES).join(", ")}`
+      );
+    }
+    files.push({ file, text: content.toString("utf8") });
+  }
+  return collectExportFiles(files, filename);
+}
+
+function collectExportFiles(files: Array<{ file: string; text: string }>, source: string): LinkedInExport {
+  if (files.length === 0) {
+    throw new Error(`No LinkedIn export files found in ${source}. Expected: ${Object.keys(LINKEDIN_FILES).join(", ")}`);
+  }
+  const result: LinkedInExport = {};
+  for (const { file, text } of files) {
+    result[file] = [...(result[file] ?? []), ...toRows(text, LINKEDIN_FILES[file])];
+  }
+  return result;
+}
+
+// Descriptions are plain text; lines starting with a bullet become list items
+function descriptionHtml(...texts: string[]): string {
+  const paragraphs: string[] = [];
+  const bullets: string[] = [];
+  for (const line of texts.join("\n").split(/\r?\n/)) {
+    const bullet = /^\s*[•\-*·▪–]\s+(.*)$/.exec(line);
+    if (bullet) bullets.push(bullet[1]);
+    else if (line.trim()) paragraphs.push(line);
+  }
+  return textToHtml(paragraphs.join("\n"), bullets);
+}
+
+// "NATIVE_OR_BILINGUAL" -> "Native or bilingual"
+function humanize(value: string): string {
+  if (!/^[A-Z_]+$/.test(value)) return value;
+  const words = value.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function fromLinkedInExport(exported: LinkedInExport, generateId: () => string): ResumeImport {
+  const unmapped = new Set<string>();
+  const result: ResumeImport = { basics: {}, picture: null, summary: null, sections: {}, unmapped: [] };
+  const rows = (file: string): Row[] => {
+    const fileRows = exported[file] ?? [];
+    for (const row of fileRows) {
+      for (const [column, value] of Object.entries(row)) {
+        if (value && !LINKEDIN_FILES[file].includes(column)) unmapped.add(`${file}: ${column}`);
+      }
+    }
+    return fileRows;
+  };
+  const item = <S extends ItemSectionName>(section: S, fields: SectionItemUpdates<S>) =>
+    RxResumeApiClient.buildSectionItem(section, generateId(), fields);
+  const website = (url: string) => ({ label: "", url });
+
+  const [profile] = rows("Profile.csv");
+  if (profile) {
+    const name = [profile["First Name"], profile["Last Name"]].filter(Boolean).join(" ");
+    if (name) result.basics.name = name;
+    if (profile["Headline"]) result.basics.headline = profile["Headline"];
+    if (profile["Geo Location"]) result.basics.location = profile["Geo Location"];
+    const url = /https?:\/\/[^\s,\]]+/.exec(profile["Websites"]);
+    if (url) result.basics.url = { label: "", href: url[0] };
+    if (profile["Summary"]) result.summary = descriptionHtml(profile["Summary"]);
+
+    const twitter = profile["Twitter Handles"].replace(/[[\]@]/g, "").split(",")[0]?.trim();
+    if (twitter) {
+      result.sections.profiles = [
+        item("profiles", { icon: "x", network: "X", username: twitter, website: website(`https://x.com/${twitter}`) }),
+      ];
+    }
+  }
+
+  const positions = rows("Positions.csv");
+  if (positions.length > 0) {
+    result.sections.experience = positions.map((row) =>
+      item("experience", {
+        company: row["Company Name"],
+        position: row["Title"],
+        location: row["Location"],
+        period: formatPeriod(row["Started On"], row["Finished On"]),
+        description: descriptionHtml(row["Description"]),
+      })
+    );
+  }
+
+  const education = rows("Education.csv");
+  if (education.length > 0) {
+    result.sections.education = education.map((row) =>
+      item("education", {
+        school: row["School Name"],
+        degree: row["Degree Name"],
+        period: formatPeriod(row["Start Date"], row["End Date"]),
+        description: descriptionHtml(row["Notes"], row["Activities"] ? `Activities: ${row["Activities"]}` : ""),
+      })
+    );
+  }
+
+  const skills = rows("Skills.csv");
+  if (skills.length > 0) {
+    result.sections.skills = skills.filter((row) => row["Name"]).map((row) => item("skills", { name: row["Name"] }));
+  }
+
+  const certifications = rows("Certifications.csv");
+  if (certifications.length > 0) {
+    result.sections.certifications = certifications.map((row) =>
+      item("certifications", {
+        title: row["Name"],
+        issuer: row["Authority"],
+        date: formatDateText(row["Started On"]),
+        website: website(row["Url"]),
+        description: row["License Number"] ? textToHtml(`License number: ${row["License Number"]}`) : "",
+      })
+    );
+  }
+
+  const languages = rows("Languages.csv");
+  if (languages.length > 0) {
+    result.sections.languages = languages.map((row) =>
+      item("languages", { language: row["Name"], fluency: humanize(row["Proficiency"]) })
+    );
+  }
+
+  const projects = rows("Projects.csv");
+  if (projects.length > 0) {
+    result.sections.projects = projects.map((row) =>
+      item("projects", {
+        name: row["Title"],
+        period: formatPeriod(row["Started On"], row["Finished On"]),
+        website: website(row["Url"]),
+        description: descriptionHtml(row["Description"]),
+      })
+    );
+  }
+
+  result.unmapped = [...unmapped];
+  return result;
+}
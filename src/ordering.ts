@@ -0,0 +1,115 @@
+import type { ItemOrder, ItemSortKey, LayoutOrder, ResumeMetadata } from "./types.js";
+import { dateSortValue, parsePeriod } from "./period.js";
+
+// Fields that name an item, in order of preference, for alphabetical sorting
+const NAME_FIELDS = ["name", "title", "company", "school", "organization", "language", "network"];
+
+export function reorderItems<T extends { id: string }>(items: T[], order: ItemOrder): T[] {
+  switch (order.type) {
+    case "ids":
+      return applyIdOrder(items, order.ids, (item) => item.id);
+    case "move":
+      return moveRelative(items, order, (item) => item.id);
+    case "sort":
+      return sortItems(items, order.key);
+  }
+}
+
+export function reorderLayout(layout: ResumeMetadata["layout"], order: LayoutOrder): ResumeMetadata["layout"] {
+  if (order.type === "ids") {
+    const column = layout[order.page]?.[order.column];
+    if (!column) {
+      throw new Error(`Layout page ${order.page}, column ${order.column} does not exist`);
+    }
+    return layout.map((columns, pageIndex) =>
+      columns.map((ids, columnIndex) =>
+        pageIndex === order.page && columnIndex === order.column ? applyIdOrder(ids, order.ids, (id) => id) : ids
+      )
+    );
+  }
+
+  const target = order.before ?? order.after;
+  const flat = layout.flat();
+  if (!flat.some((ids) => ids.includes(order.id))) {
+    throw new Error(`Section ${order.id} is not in the layout`);
+  }
+  if (target === undefined || !flat.some((ids) => ids.includes(target))) {
+    throw new Error(`Section ${target} is not in the layout`);
+  }
+  // Remove the section wherever it is, then insert it next to the target (possibly in another column)
+  const without = layout.map((columns) => columns.map((ids) => ids.filter((id) => id !== order.id)));
+  return without.map((columns) =>
+    columns.map((ids) => (ids.includes(target) ? moveRelative([...ids, order.id], order, (id) => id) : ids))
+  );
+}
+
+// Listed ids come first in the given order; unlisted entries keep their relative order after them
+function applyIdOrder<T>(list: T[], ids: string[], getId: (entry: T) => string): T[] {
+  const byId = new Map(list.map((entry) => [getId(entry), entry]));
+  const unknownIds = ids.filter((id) => !byId.has(id));
+  if (unknownIds.length > 0) {
+    throw new Error(`Unknown id(s): ${unknownIds.join(", ")}`);
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw new Error("Each id may only be listed once");
+  }
+  const listed = new Set(ids);
+  return [...ids.map((id) => byId.get(id)!), ...list.filter((entry) => !listed.has(getId(entry)))];
+}
+
+function moveRelative<T>(
+  list: T[],
+  move: { id: string; before?: string; after?: string },
+  getId: (entry: T) => string
+): T[] {
+  if ((move.before === undefined) === (move.after === undefined)) {
+    throw new Error("Specify exactly one of before or after");
+  }
+  const target = (move.before ?? move.after)!;
+  if (target === move.id) {
+    throw new Error("Cannot move an entry relative to itself");
+  }
+  const entry = list.find((candidate) => getId(candidate) === move.id);
+  if (entry === undefined) throw new Error(`Unknown id: ${move.id}`);
+
+  const rest = list.filter((candidate) => getId(candidate) !== move.id);
+  const targetIndex = rest.findIndex((candidate) => getId(candidate) === target);
+  if (targetIndex === -1) throw new Error(`Unknown id: ${target}`);
+
+  rest.splice(move.before !== undefined ? targetIndex : targetIndex + 1, 0, entry);
+  return rest;
+}
+
+function sortItems<T extends { id: string }>(items: T[], key: ItemSortKey): T[] {
+  if (key === "name") {
+    return [...items].sort((a, b) => itemName(a).localeCompare(itemName(b)));
+  }
+
+  // Sort by end date (ongoing first), then start date; unparseable periods go last
+  const keyed = items.map((item) => {
+    const period = parsePeriod(itemPeriod(item));
+    const end = period.current ? Number.POSITIVE_INFINITY : period.end ? dateSortValue(period.end) : null;
+    const start = period.start ? dateSortValue(period.start) : null;
+    return { item, end: end ?? start, start: start ?? end };
+  });
+  const direction = key === "period_desc" ? -1 : 1;
+  return keyed
+    .sort((a, b) => {
+      if (a.end === null || b.end === null) return (a.end === null ? 1 : 0) - (b.end === null ? 1 : 0);
+      if (a.end !== b.end) return (a.end - b.end) * direction;
+      return ((a.start ?? 0) - (b.start ?? 0)) * direction;
+    })
+    .map(({ item }) => item);
+}
+
+function itemPeriod(item: object): string {
+  const { period, date } = item as { period?: unknown; date?: unknown };
+  if (typeof period === "string") return period;
+  return typeof date === "string" ? date : "";
+}
+
+function itemName(item: object): string {
+  const fields = item as Record<string, unknown>;
+  const field = NAME_FIELDS.find((name) => typeof fields[name] === "string" && fields[name] !== "");
+  return field ? (fields[field] as string) : "";
+}
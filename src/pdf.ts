@@ -0,0 +1,20 @@
+// Page count of a PDF without a full parser. The page tree root ("/Type /Pages")
+// carries the total in /Count; with several page tree nodes the root has the largest.
+// Falls back to counting page objects, and returns null if neither can be found
+// (e.g. when the page tree sits in a compressed object stream).
+export function countPdfPages(pdf: ArrayBuffer | Uint8Array): number | null {
+  const text = Buffer.from(pdf instanceof Uint8Array ? pdf : new Uint8Array(pdf)).toString("latin1");
+  if (!text.startsWith("%PDF-")) {
+    throw new Error("Not a PDF document");
+  }
+
+  let count: number | null = null;
+  for (const match of text.matchAll(/<<((?:(?!>>)[\s\S])*?\/Type\s*\/Pages\b[\s\S]*?)>>/g)) {
+    const total = /\/Count\s+(\d+)/.exec(match[1]);
+    if (total) count = Math.max(count ?? 0, Number(total[1]));
+  }
+  if (count !== null) return count;
+
+  const pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g);
+  return pages ? pages.length : null;
+}
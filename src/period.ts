@@ -0,0 +1,109 @@
+// Parsing of the free-text period/date strings resume items carry,
+// e.g. "Jan 2020 - Present", "2016 – 2019", "03/2021", "2022-05-01".
+
+export interface PartialDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+export interface ParsedPeriod {
+  start: PartialDate | null;
+  end: PartialDate | null;
+  // True when the period is open-ended ("Present", "Current", ...)
+  current: boolean;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const CURRENT_WORDS = /^(present|current|now|today|ongoing)$/i;
+
+const RANGE_SEPARATOR = /\s+(?:-|–|—|to|until)\s+|\s*[–—]\s*|(?<=\d)\s*-\s*(?=[a-z]|\d{1,2}\/|\d{4}(?!-\d))/i;
+
+export function parseDate(text: string): PartialDate | null {
+  const value = text.trim().replace(/,/g, "");
+  let match: RegExpExecArray | null;
+
+  // 2020-05-01 / 2020-05
+  if ((match = /^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/.exec(value))) {
+    return withParts(+match[1], +match[2], match[3] ? +match[3] : undefined);
+  }
+  // 05/2020
+  if ((match = /^(\d{1,2})[/.](\d{4})$/.exec(value))) {
+    return withParts(+match[2], +match[1]);
+  }
+  // Jan 2020 / January 2020 / Jan. 2020
+  if ((match = /^([a-z]+)\.?\s+(\d{4})$/i.exec(value))) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase());
+    return month === -1 ? null : withParts(+match[2], month + 1);
+  }
+  // 2020
+  if ((match = /^(\d{4})$/.exec(value))) {
+    return { year: +match[1] };
+  }
+  return null;
+}
+
+export function parsePeriod(text: string): ParsedPeriod {
+  const value = text.trim();
+  if (value === "") return { start: null, end: null, current: false };
+
+  // "2019 -" is an open-ended range
+  const openEnded = /^(.*?)\s*[-–—]\s*$/.exec(value);
+  if (openEnded) return { start: parseDate(openEnded[1]), end: null, current: true };
+
+  const parts = value.split(RANGE_SEPARATOR).map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 1) {
+    const date = parseDate(parts[0]);
+    return { start: date, end: date, current: false };
+  }
+
+  const [startText, endText] = parts;
+  const current = CURRENT_WORDS.test(endText);
+  return {
+    start: parseDate(startText),
+    end: current ? null : parseDate(endText),
+    current,
+  };
+}
+
+// Format as an ISO 8601 prefix (YYYY, YYYY-MM or YYYY-MM-DD)
+export function formatPartialDate(date: PartialDate): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  let result = String(date.year);
+  if (date.month !== undefined) result += `-${pad(date.month)}`;
+  if (date.month !== undefined && date.day !== undefined) result += `-${pad(date.day)}`;
+  return result;
+}
+
+// Format for display on a resume, e.g. "Jan 2020" or "2020"
+export function formatDisplayDate(date: PartialDate): string {
+  if (date.month === undefined) return String(date.year);
+  const month = MONTHS[date.month - 1];
+  return `${month[0].toUpperCase()}${month.slice(1)} ${date.year}`;
+}
+
+// Reformat a date string for display, keeping it as written if it cannot be parsed
+export function formatDateText(text: string): string {
+  const date = parseDate(text);
+  return date ? formatDisplayDate(date) : text.trim();
+}
+
+// Build a period string from ISO-ish start/end dates; a missing end means ongoing
+export function formatPeriod(start: string | undefined, end: string | undefined): string {
+  const from = start?.trim() ? formatDateText(start) : "";
+  const to = end?.trim() ? formatDateText(end) : "";
+  if (!from) return to;
+  return `${from} - ${to || "Present"}`;
+}
+
+// Numeric key for chronological comparison; missing months/days sort as the start of the year/month
+export function dateSortValue(date: PartialDate): number {
+  return date.year * 10000 + (date.month ?? 0) * 100 + (date.day ?? 0);
+}
+
+function withParts(year: number, month: number, day?: number): PartialDate | null {
+  if (month < 1 || month > 12) return null;
+  if (day !== undefined && (day < 1 || day > 31)) return null;
+  return day === undefined ? { year, month } : { year, month, day };
+}
@@ -0,0 +1,100 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+
+// Named Reactive Resume instances from a JSON config file, e.g.
+// {
+//   "default": "personal",
+//   "profiles": {
+//     "personal": { "baseUrl": "https://rxresu.me", "apiKeyEnv": "RXRESUME_PERSONAL_KEY" },
+//     "work": { "baseUrl": "https://resume.example.com", "apiKey": "..." },
+//     "staging": { "baseUrl": "https://staging.example.com", "email": "me@example.com", "password": "..." }
+//   }
+// }
+
+const profileSchema = z
+  .object({
+    baseUrl: z.string().url(),
+    description: z.string().optional(),
+    apiKey: z.string().optional(),
+    // Name of an environment variable holding the API key, to keep secrets out of the file
+    apiKeyEnv: z.string().optional(),
+    email: z.string().optional(),
+    password: z.string().optional(),
+  })
+  .strict();
+
+const configSchema = z
+  .object({
+    default: z.string().optional(),
+    profiles: z.record(profileSchema).default({}),
+  })
+  .strict()
+  .refine((config) => !config.default || config.default in config.profiles, {
+    message: "default must name one of the profiles",
+    path: ["default"],
+  });
+
+export type InstanceProfile = z.infer<typeof profileSchema>;
+export type ProfilesConfig = z.infer<typeof configSchema>;
+
+// $XDG_CONFIG_HOME/rxresume-mcp/config.json, falling back to ~/.config
+export function defaultConfigPath(): string {
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), ".config"), "rxresume-mcp", "config.json");
+}
+
+// A missing file means no profiles; an unreadable or invalid one is an error
+export async function loadProfilesConfig(path: string): Promise<ProfilesConfig> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { profiles: {} };
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = configSchema.safeParse(parsed);
+  if (!result.success) {
+    const details = result.error.issues
+      .map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid profile config ${path}:\n${details}`);
+  }
+  return result.data;
+}
+
+export function getProfile(config: ProfilesConfig, name: string): InstanceProfile {
+  const profile = config.profiles[name];
+  if (!profile) {
+    const names = Object.keys(config.profiles);
+    throw new Error(
+      `Unknown profile "${name}". ${names.length > 0 ? `Available: ${names.join(", ")}` : "No profiles are configured."}`
+    );
+  }
+  return profile;
+}
+
+export function profileApiKey(profile: InstanceProfile): string | undefined {
+  if (profile.apiKey) return profile.apiKey;
+  if (!profile.apiKeyEnv) return undefined;
+  const value = process.env[profile.apiKeyEnv];
+  if (!value) {
+    throw new Error(`Environment variable ${profile.apiKeyEnv} (apiKeyEnv) is not set`);
+  }
+  return value;
+}
+
+// How the profile authenticates, without revealing secrets
+export function describeProfileAuth(profile: InstanceProfile): string {
+  if (profile.apiKey) return "API key";
+  if (profile.apiKeyEnv) return `API key from $${profile.apiKeyEnv}`;
+  if (profile.email && profile.password) return `email/password (${profile.email})`;
+  return "none";
+}
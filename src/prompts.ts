@@ -0,0 +1,120 @@
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { renderResumeMarkdown } from "./render.js";
+import type { Resume } from "./types.js";
+
+// Guided workflows offered as MCP prompts. Each embeds the resume it works on and
+// tells the model which tools to use, previewing changes with dry_run first.
+
+function resumeMessage(resume: Resume, value: unknown = resume.data, path = ""): GetPromptResult["messages"][number] {
+  return {
+    role: "user",
+    content: {
+      type: "resource",
+      resource: {
+        uri: `rxresume://resume/${resume.id}${path}`,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    },
+  };
+}
+
+function textMessage(text: string): GetPromptResult["messages"][number] {
+  return { role: "user", content: { type: "text", text } };
+}
+
+const REVIEW_RULES = `Before saving anything, preview each change with dry_run: true and show me the diff.
+Never invent employers, titles, dates, degrees or numbers that are not in the resume or that I have not given you; ask me instead.`;
+
+export function tailorResumePrompt(resume: Resume, jobDescription: string, keepOriginal: boolean): GetPromptResult {
+  const target = keepOriginal
+    ? `First call duplicate_resume on resume ${resume.id} with a title naming the role, and make every edit on the copy so the original stays untouched.`
+    : `Edit resume ${resume.id} directly.`;
+  return {
+    description: `Tailor "${resume.title}" to a job description`,
+    messages: [
+      resumeMessage(resume),
+      textMessage(`Tailor my resume "${resume.title}" (data above) to this job description:
+
+<job_description>
+${jobDescription}
+</job_description>
+
+${target}
+
+1. List the job's key requirements and keywords, and map each to evidence in the resume (or note the gap).
+2. Rewrite the summary with update_summary so it speaks to this role.
+3. Reword experience and project descriptions with update_section_item to use the job's terminology where it is truthful.
+4. Put the most relevant skills and items first with reorder_section_items, and hide irrelevant ones (update_section_item with hidden: true).
+5. Finish with a short list of remaining gaps I could address.
+
+${REVIEW_RULES}`),
+    ],
+  };
+}
+
+export function rewriteBulletsPrompt(resume: Resume, itemId?: string): GetPromptResult {
+  const items = resume.data.sections.experience.items;
+  const selected = itemId ? items.filter((item) => item.id === itemId) : items.filter((item) => !item.hidden);
+  if (selected.length === 0) {
+    throw new Error(itemId ? `Experience item ${itemId} not found` : "The resume has no visible experience items");
+  }
+  return {
+    description: `Rewrite experience bullets of "${resume.title}" with measurable results`,
+    messages: [
+      resumeMessage(resume, selected, "/section/experience"),
+      textMessage(`Rewrite the bullet points of the experience ${selected.length === 1 ? "entry" : "entries"} above (resume ${resume.id}).
+
+For each bullet:
+- Start with a strong action verb and keep it to one or two lines.
+- Lead with the outcome: quantify impact (%, $, time saved, scale, users, team size) wherever the original supports it.
+- Where a number would help but is missing, write the bullet with a placeholder like [X%] and ask me for the real figure.
+- Drop filler and duties that show no result.
+
+Show the before and after for each entry, then save with update_section_item (section "experience", the item's id, the new HTML description as a <ul> of <li> items).
+
+${REVIEW_RULES}`),
+    ],
+  };
+}
+
+export function condenseToOnePagePrompt(resume: Resume): GetPromptResult {
+  const words = renderResumeMarkdown(resume).split(/\s+/).filter(Boolean).length;
+  return {
+    description: `Condense "${resume.title}" to a single page`,
+    messages: [
+      resumeMessage(resume),
+      textMessage(`Condense my resume "${resume.title}" (resume ${resume.id}, data above, about ${words} words as rendered) so it fits on one page.
+
+1. Call export_resume_pdf to see the current page count.
+2. Propose cuts in order of least value: old or unrelated roles, duplicate skills, long descriptions, minor sections. Prefer hiding items or sections (hidden: true, toggle_section_visibility) over deleting them.
+3. Tighten the remaining descriptions to the strongest two or three bullets each.
+4. Only if content cuts are not enough, adjust the design: set_page_format for smaller margins, set_typography for a slightly smaller font size or line height.
+5. Call export_resume_pdf again and repeat until it reports 1 page.
+
+${REVIEW_RULES}`),
+    ],
+  };
+}
+
+export function proofreadPrompt(resume: Resume, locale?: string): GetPromptResult {
+  const language = locale ? ` in ${locale} conventions` : "";
+  return {
+    description: `Proofread "${resume.title}"`,
+    messages: [
+      resumeMessage(resume),
+      textMessage(`Proofread my resume "${resume.title}" (resume ${resume.id}, data above)${language}.
+
+Check for:
+- Spelling, grammar and punctuation mistakes
+- Inconsistent tense (past tense for past roles, present for the current one)
+- Inconsistent date formats, capitalization of titles and company names, and bullet punctuation
+- Repeated words and phrases, vague wording, first-person pronouns
+- Broken or suspicious links and contact details
+
+List every issue with its location (section, item and field) and the suggested fix. After I confirm, apply the fixes with update_resume_basics, update_summary and update_section_item.
+
+${REVIEW_RULES}`),
+    ],
+  };
+}
@@ -0,0 +1,191 @@
+import { escapeMarkdown, htmlToMarkdown, htmlToText, type TextStyle } from "./html.js";
+import { sectionNames } from "./schemas.js";
+import type { ItemSectionName, Resume, ResumeData, SectionItemMap } from "./types.js";
+
+// Rendering of a resume as Markdown or ATS-friendly plain text. Sections follow
+// metadata.layout (page by page, main column first) and hidden sections and items are
+// left out, so the output matches what the resume itself shows.
+
+// The parts every kind of item is rendered from
+interface ItemParts {
+  title: string;
+  subtitle: string;
+  // Dates, locations and similar short facts
+  details: string[];
+  url: string;
+  description: string;
+  keywords: string[];
+}
+
+type AnyItem = SectionItemMap[ItemSectionName] | ResumeData["sections"]["custom"][string]["items"][number];
+
+// Sections of short items that read best as one line each
+const COMPACT_SECTIONS = new Set(["skills", "languages", "interests", "profiles"]);
+
+const DEFAULT_TITLES: Record<string, string> = {
+  summary: "Summary",
+  experience: "Experience",
+  education: "Education",
+  skills: "Skills",
+  projects: "Projects",
+  certifications: "Certifications",
+  languages: "Languages",
+  awards: "Awards",
+  publications: "Publications",
+  volunteer: "Volunteering",
+  interests: "Interests",
+  references: "References",
+  profiles: "Profiles",
+};
+
+function itemParts(section: string, item: AnyItem): ItemParts {
+  const fields = item as unknown as Record<string, unknown>;
+  const get = (key: string) => (typeof fields[key] === "string" ? (fields[key] as string).trim() : "");
+  const keywords = Array.isArray(fields.keywords) ? (fields.keywords as string[]).filter(Boolean) : [];
+  const url = (fields.website as { url?: string } | undefined)?.url?.trim() ?? "";
+  const parts = (title: string, subtitle: string, details: string[]): ItemParts => ({
+    title,
+    subtitle,
+    details: details.filter(Boolean),
+    url,
+    description: get("description"),
+    keywords,
+  });
+
+  switch (section) {
+    case "experience":
+      return parts(get("position"), get("company"), [get("period"), get("location")]);
+    case "education":
+      return parts(get("school"), [get("degree"), get("area")].filter(Boolean).join(", "), [
+        get("period"),
+        get("location"),
+        get("grade"),
+      ]);
+    case "skills":
+      return parts(get("name"), get("proficiency"), []);
+    case "certifications":
+      return parts(get("title"), get("issuer"), [get("date")]);
+    case "languages":
+      return parts(get("language"), get("fluency"), []);
+    case "awards":
+      return parts(get("title"), get("awarder"), [get("date")]);
+    case "publications":
+      return parts(get("title"), get("publisher"), [get("date")]);
+    case "volunteer":
+      return parts(get("organization"), "", [get("period"), get("location")]);
+    case "references":
+      return parts(get("name"), get("position"), [get("phone")]);
+    case "profiles":
+      return parts(get("network"), get("username"), []);
+    default:
+      // projects, interests and custom sections
+      return parts(get("name"), "", [get("period"), get("location")]);
+  }
+}
+
+interface RenderedSection {
+  title: string;
+  compact: boolean;
+  // Summary content, for the summary section
+  content?: string;
+  items: ItemParts[];
+}
+
+// Visible sections in layout order; sections missing from the layout are not shown
+function visibleSections(data: ResumeData): RenderedSection[] {
+  const order = (data.metadata.layout ?? []).flatMap((page) => page.flat());
+  const layoutIds = order.length > 0 ? order : [...sectionNames];
+  const result: RenderedSection[] = [];
+
+  for (const layoutId of new Set(layoutIds)) {
+    if (layoutId === "summary") {
+      const summary = data.sections.summary;
+      if (summary.visible && summary.content.trim()) {
+        result.push({ title: summary.name || DEFAULT_TITLES.summary, compact: false, content: summary.content, items: [] });
+      }
+      continue;
+    }
+
+    const isCustom = layoutId.startsWith("custom.");
+    const section = isCustom
+      ? data.sections.custom?.[layoutId.slice("custom.".length)]
+      : data.sections[layoutId as ItemSectionName];
+    if (!section || !section.visible) continue;
+
+    const items = (section.items as AnyItem[])
+      .filter((item) => !item.hidden)
+      .map((item) => itemParts(isCustom ? "custom" : layoutId, item));
+    if (items.length === 0) continue;
+    result.push({
+      title: section.name || DEFAULT_TITLES[layoutId] || layoutId,
+      compact: !isCustom && COMPACT_SECTIONS.has(layoutId),
+      items,
+    });
+  }
+  return result;
+}
+
+function contactLine(data: ResumeData): string[] {
+  const { basics } = data;
+  return [basics.email, basics.phone, basics.location, basics.url.href].map((value) => value.trim()).filter(Boolean);
+}
+
+function renderItem(item: ItemParts, compact: boolean, style: TextStyle): string {
+  const markdown = style === "markdown";
+  const escape = (text: string) => (markdown ? escapeMarkdown(text) : text);
+  const convert = markdown ? htmlToMarkdown : htmlToText;
+
+  if (compact) {
+    let line = markdown ? `- **${escape(item.title)}**` : `- ${item.title}`;
+    if (item.subtitle) line += markdown ? ` (${escape(item.subtitle)})` : ` (${item.subtitle})`;
+    if (item.keywords.length > 0) line += `: ${escape(item.keywords.join(", "))}`;
+    if (item.url) line += markdown ? ` – <${item.url}>` : ` – ${item.url}`;
+    return line;
+  }
+
+  const heading = [item.title, item.subtitle].filter(Boolean).map(escape).join(markdown ? " — " : ", ");
+  const lines = [markdown ? `### ${heading}` : heading];
+  if (item.details.length > 0) {
+    const details = item.details.map(escape).join(markdown ? " · " : " | ");
+    lines.push(markdown ? `_${details}_` : details);
+  }
+  if (item.url) lines.push(markdown ? `<${item.url}>` : item.url);
+  const description = convert(item.description);
+  const keywords = item.keywords.length > 0 ? `${markdown ? "**Keywords:**" : "Keywords:"} ${escape(item.keywords.join(", "))}` : "";
+  return [lines.join(markdown ? "  \n" : "\n"), description, keywords].filter(Boolean).join("\n\n");
+}
+
+export function renderResume(resume: Resume, style: TextStyle): string {
+  const { data } = resume;
+  const markdown = style === "markdown";
+  const escape = (text: string) => (markdown ? escapeMarkdown(text) : text);
+  const blocks: string[] = [];
+
+  const name = data.basics.name.trim() || resume.title;
+  const header = [markdown ? `# ${escape(name)}` : name.toUpperCase()];
+  if (data.basics.headline.trim()) header.push(escape(data.basics.headline.trim()));
+  const contact = contactLine(data);
+  if (contact.length > 0) header.push(contact.map(escape).join(markdown ? " · " : " | "));
+  blocks.push(header.join(markdown ? "\n\n" : "\n"));
+
+  for (const section of visibleSections(data)) {
+    const title = markdown ? `## ${escape(section.title)}` : section.title.toUpperCase();
+    if (section.content !== undefined) {
+      blocks.push(`${title}\n\n${markdown ? htmlToMarkdown(section.content) : htmlToText(section.content)}`);
+    } else if (section.compact) {
+      blocks.push(`${title}\n\n${section.items.map((item) => renderItem(item, true, style)).join("\n")}`);
+    } else {
+      blocks.push([title, ...section.items.map((item) => renderItem(item, false, style))].join("\n\n"));
+    }
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
+
+export function renderResumeMarkdown(resume: Resume): string {
+  return renderResume(resume, "markdown");
+}
+
+export function renderResumeText(resume: Resume): string {
+  return renderResume(resume, "text");
+}
@@ -0,0 +1,367 @@
+import { z } from "zod";
+import type {
+  ItemSectionName,
+  ResumeBasics,
+  ResumeData,
+  ResumeMetadata,
+  ResumeSections,
+  SectionName,
+} from "./types.js";
+
+// Runtime schemas mirroring the v5 ResumeData model in types.ts.
+// Objects are passthrough so fields the server adds but we don't model survive a round trip.
+
+export const websiteSchema = z
+  .object({
+    label: z.string(),
+    url: z.string(),
+  })
+  .passthrough();
+
+const itemBase = {
+  id: z.string().min(1),
+  hidden: z.boolean(),
+};
+
+export const sectionItemSchemas = {
+  experience: z
+    .object({
+      ...itemBase,
+      company: z.string(),
+      position: z.string(),
+      location: z.string(),
+      period: z.string(),
+      website: websiteSchema,
+      description: z.string(),
+    })
+    .passthrough(),
+  education: z
+    .object({
+      ...itemBase,
+      school: z.string(),
+      degree: z.string(),
+      area: z.string(),
+      grade: z.string(),
+      location: z.string(),
+      period: z.string(),
+      website: websiteSchema,
+      description: z.string(),
+    })
+    .passthrough(),
+  skills: z
+    .object({
+      ...itemBase,
+      icon: z.string(),
+      name: z.string(),
+      proficiency: z.string(),
+      level: z.number().min(0).max(5),
+      keywords: z.array(z.string()),
+    })
+    .passthrough(),
+  projects: z
+    .object({
+      ...itemBase,
+      name: z.string(),
+      period: z.string(),
+      website: websiteSchema,
+      description: z.string(),
+    })
+    .passthrough(),
+  certifications: z
+    .object({
+      ...itemBase,
+      title: z.string(),
+      issuer: z.string(),
+      date: z.string(),
+      website: websiteSchema,
+      description: z.string(),
+    })
+    .passthrough(),
+  languages: z
+    .object({
+      ...itemBase,
+      language: z.string(),
+      fluency: z.string(),
+      level: z.number().min(0).max(5),
+    })
+    .passthrough(),
+  awards: z
+    .object({
+      ...itemBase,
+      title: z.string(),
+      awarder: z.string(),
+      date: z.string(),
+      website: websiteSchema,
+      description: z.string(),
+    })
+    .passthrough(),
+  publications: z
+    .object({
+      ...itemBase,
+      title: z.string(),
+      publisher: z.string(),
+      date: z.string(),
+      website: websiteSchema,
+      description: z.string(),
+    })
+    .passthrough(),
+  volunteer: z
+    .object({
+      ...itemBase,
+      organization: z.string(),
+      location: z.string(),
+      period: z.string(),
+      website: websiteSchema,
+      description: z.string(),
+    })
+    .passthrough(),
+  interests: z
+    .object({
+      ...itemBase,
+      icon: z.string(),
+      name: z.string(),
+      keywords: z.array(z.string()),
+    })
+    .passthrough(),
+  references: z
+    .object({
+      ...itemBase,
+      name: z.string(),
+      position: z.string(),
+      phone: z.string(),
+      website: websiteSchema,
+      description: z.string(),
+    })
+    .passthrough(),
+  profiles: z
+    .object({
+      ...itemBase,
+      icon: z.string(),
+      network: z.string(),
+      username: z.string(),
+      website: websiteSchema,
+    })
+    .passthrough(),
+} satisfies Record<ItemSectionName, z.ZodTypeAny>;
+
+export const customSectionItemSchema = z
+  .object({
+    ...itemBase,
+    name: z.string(),
+    location: z.string(),
+    period: z.string(),
+    website: websiteSchema,
+    description: z.string(),
+    keywords: z.array(z.string()),
+  })
+  .passthrough();
+
+const sectionBase = {
+  name: z.string(),
+  columns: z.number().int().min(1),
+  separateLinks: z.boolean(),
+  visible: z.boolean(),
+  id: z.string(),
+};
+
+function sectionSchema<T extends z.ZodTypeAny>(item: T) {
+  return z
+    .object({
+      ...sectionBase,
+      items: z.array(item),
+    })
+    .passthrough();
+}
+
+export const summarySectionSchema = z
+  .object({
+    ...sectionBase,
+    content: z.string(),
+  })
+  .passthrough();
+
+const sectionSchemas = {
+  summary: summarySectionSchema,
+  experience: sectionSchema(sectionItemSchemas.experience),
+  education: sectionSchema(sectionItemSchemas.education),
+  skills: sectionSchema(sectionItemSchemas.skills),
+  projects: sectionSchema(sectionItemSchemas.projects),
+  certifications: sectionSchema(sectionItemSchemas.certifications),
+  languages: sectionSchema(sectionItemSchemas.languages),
+  awards: sectionSchema(sectionItemSchemas.awards),
+  publications: sectionSchema(sectionItemSchemas.publications),
+  volunteer: sectionSchema(sectionItemSchemas.volunteer),
+  interests: sectionSchema(sectionItemSchemas.interests),
+  references: sectionSchema(sectionItemSchemas.references),
+  profiles: sectionSchema(sectionItemSchemas.profiles),
+} satisfies Record<SectionName, z.ZodTypeAny>;
+
+export const sectionNames = Object.keys(sectionSchemas) as SectionName[];
+
+export const customSectionSchema = sectionSchema(customSectionItemSchema);
+
+export const sectionsSchema: z.ZodType<ResumeSections> = z
+  .object({
+    ...sectionSchemas,
+    custom: z.record(customSectionSchema),
+  })
+  .passthrough();
+
+export const basicsSchema: z.ZodType<ResumeBasics> = z
+  .object({
+    name: z.string(),
+    headline: z.string(),
+    email: z.string(),
+    phone: z.string(),
+    location: z.string(),
+    url: z.object({ label: z.string(), href: z.string() }).passthrough(),
+    customFields: z.array(
+      z
+        .object({
+          id: z.string(),
+          icon: z.string(),
+          name: z.string(),
+          value: z.string(),
+        })
+        .passthrough()
+    ),
+    picture: z
+      .object({
+        url: z.string(),
+        size: z.number(),
+        aspectRatio: z.number(),
+        borderRadius: z.number(),
+        effects: z
+          .object({
+            hidden: z.boolean(),
+            border: z.boolean(),
+            grayscale: z.boolean(),
+          })
+          .passthrough(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export const metadataSchema: z.ZodType<ResumeMetadata> = z
+  .object({
+    template: z.string().min(1),
+    layout: z.array(z.array(z.array(z.string()))),
+    css: z
+      .object({
+        value: z.string(),
+        visible: z.boolean(),
+      })
+      .passthrough(),
+    page: z
+      .object({
+        margin: z.number().min(0),
+        format: z.string(),
+        options: z
+          .object({
+            breakLine: z.boolean(),
+            pageNumbers: z.boolean(),
+          })
+          .passthrough(),
+      })
+      .passthrough(),
+    theme: z
+      .object({
+        background: z.string(),
+        text: z.string(),
+        primary: z.string(),
+      })
+      .passthrough(),
+    typography: z
+      .object({
+        font: z
+          .object({
+            family: z.string(),
+            subset: z.string(),
+            variants: z.array(z.string()),
+            size: z.number().positive(),
+          })
+          .passthrough(),
+        lineHeight: z.number().positive(),
+        hideIcons: z.boolean(),
+        underlineLinks: z.boolean(),
+      })
+      .passthrough(),
+    notes: z.string(),
+  })
+  .passthrough();
+
+export const resumeDataSchema: z.ZodType<ResumeData> = z
+  .object({
+    basics: basicsSchema,
+    sections: sectionsSchema,
+    metadata: metadataSchema,
+  })
+  .passthrough();
+
+// Input schemas for metadata editing tools
+
+export const templateSchema = z.enum([
+  "azurill",
+  "bronzor",
+  "chikorita",
+  "ditto",
+  "gengar",
+  "glalie",
+  "kakuna",
+  "leafish",
+  "nosepass",
+  "onyx",
+  "pikachu",
+  "rhyhorn",
+]);
+
+export const hexColorSchema = z
+  .string()
+  .regex(/^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, "Expected a hex colour like #1e3a8a");
+
+export const pageFormatSchema = z.enum(["a4", "letter"]);
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ResumeValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const details = issues.map((issue) => `  - ${issue.path || "(root)"}: ${issue.message}`).join("\n");
+    super(`Resume data failed validation:\n${details}`);
+    this.name = "ResumeValidationError";
+    this.issues = issues;
+  }
+}
+
+// Render a zod path as e.g. "sections.experience.items[2].period"
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === "number") return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, "");
+}
+
+function assertValid(schema: z.ZodTypeAny, value: unknown, basePath: Array<string | number> = []): void {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ResumeValidationError(
+      result.error.issues.map((issue) => ({
+        path: formatPath([...basePath, ...issue.path]),
+        message: issue.message,
+      }))
+    );
+  }
+}
+
+export function validateResumeData(data: unknown): asserts data is ResumeData {
+  assertValid(resumeDataSchema, data);
+}
+
+export function validateSection(sectionName: SectionName, section: unknown): void {
+  assertValid(sectionSchemas[sectionName], section, ["sections", sectionName]);
+}
@@ -0,0 +1,3474 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { createHash } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  RxResumeApiClient,
+  createApiClient,
+  normalizeBaseUrl,
+  type AuthCheck,
+  type RequestPolicy,
+  type ResumeChangeListener,
+  customSectionLayoutId,
+  findLayoutPosition,
+} from "./api-client.js";
+import { SessionState, SessionStore } from "./session.js";
+import {
+  defaultConfigPath,
+  describeProfileAuth,
+  getProfile,
+  loadProfilesConfig,
+  profileApiKey,
+  type ProfilesConfig,
+} from "./profiles.js";
+import { hexColorSchema, pageFormatSchema, sectionNames, templateSchema } from "./schemas.js";
+import { sanitizeCss } from "./css.js";
+import { ResumeHistory } from "./history.js";
+import { diffResumeData, formatResumeDiff } from "./diff.js";
+import { generateId } from "./ids.js";
+import { fromJsonResume, toJsonResume } from "./json-resume.js";
+import { fromLinkedInExport, parseLinkedInExport, readLinkedInExport } from "./linkedin.js";
+import {
+  applyResumeImport,
+  describeResumeImport,
+  type ImportMode,
+  type ResumeImport,
+  type SkippedImportItem,
+} from "./import.js";
+import { renderResumeMarkdown, renderResumeText } from "./render.js";
+import { countPdfPages } from "./pdf.js";
+import {
+  condenseToOnePagePrompt,
+  proofreadPrompt,
+  rewriteBulletsPrompt,
+  tailorResumePrompt,
+} from "./prompts.js";
+import {
+  dropItems,
+  hideSections,
+  itemHasTag,
+  itemMentions,
+  regenerateItemIds,
+  type DroppedItem,
+} from "./transform.js";
+import type {
+  ExperienceItem,
+  EducationItem,
+  SkillItem,
+  ProjectItem,
+  CertificationItem,
+  LanguageItem,
+  AwardItem,
+  PublicationItem,
+  VolunteerItem,
+  InterestItem,
+  ReferenceItem,
+  ProfileItem,
+  SectionName,
+  BasicsUpdates,
+  ItemOrder,
+  LayoutOrder,
+  ResumeChangePreview,
+  ResumeData,
+} from "./types.js";
+
+const BASE_URL = process.env.RXRESUME_BASE_URL || "https://rxresu.me";
+const API_KEY = process.env.RXRESUME_API_KEY || "";
+const HISTORY_DIR = process.env.RXRESUME_HISTORY_DIR || "";
+const HISTORY_LIMIT = Number(process.env.RXRESUME_HISTORY_LIMIT) || 20;
+const OUTPUT_DIR = process.env.RXRESUME_OUTPUT_DIR || join(tmpdir(), "rxresume-mcp");
+// Overrides of the client's timeout and retry defaults (DEFAULT_REQUEST_POLICY)
+const REQUEST_POLICY = Object.fromEntries(
+  Object.entries({
+    timeoutMs: process.env.RXRESUME_TIMEOUT_MS,
+    maxRetries: process.env.RXRESUME_MAX_RETRIES,
+    retryBudget: process.env.RXRESUME_RETRY_BUDGET,
+  })
+    .filter(([, value]) => value && Number.isFinite(Number(value)))
+    .map(([key, value]) => [key, Number(value)])
+) as Partial<RequestPolicy>;
+// Re-read each resume after writing it, for instances that change data on save
+const REFETCH_AFTER_WRITE = process.env.RXRESUME_REFETCH_AFTER_WRITE === "true";
+const CONFIG_PATH = process.env.RXRESUME_CONFIG || defaultConfigPath();
+const PROFILE = process.env.RXRESUME_PROFILE || "";
+// Over HTTP, sessions start without the operator's API key unless this is set
+const HTTP_SHARE_CREDENTIALS = process.env.RXRESUME_HTTP_SHARE_CREDENTIALS === "true";
+// Profiles HTTP clients may list and use; none unless the operator names them
+const HTTP_PROFILES = (process.env.RXRESUME_HTTP_PROFILES || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+// Instances besides the startup one and those of RXRESUME_HTTP_PROFILES that HTTP clients
+// may switch to with set_base_url
+const HTTP_BASE_URLS = (process.env.RXRESUME_HTTP_BASE_URLS || "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean);
+
+// Where new sessions start, resolved by initializeConnection(): the RXRESUME_PROFILE profile if set,
+// else RXRESUME_BASE_URL and/or RXRESUME_API_KEY, else the config file's default profile
+let initialConnection: { profile: string | null; baseUrl: string; apiKey: string } = {
+  profile: null,
+  baseUrl: BASE_URL,
+  apiKey: API_KEY,
+};
+
+// Called once at startup, before any session is created
+export async function initializeConnection(): Promise<void> {
+  initialConnection = await resolveInitialConnection();
+}
+
+async function resolveInitialConnection(): Promise<typeof initialConnection> {
+  // An explicitly requested profile must work
+  if (PROFILE) return profileConnection(await loadProfilesConfig(CONFIG_PATH), PROFILE);
+  if (process.env.RXRESUME_BASE_URL || process.env.RXRESUME_API_KEY) return initialConnection;
+
+  // The default profile is only a convenience: if it is unusable, start from the defaults
+  try {
+    const config = await loadProfilesConfig(CONFIG_PATH);
+    return config.default ? profileConnection(config, config.default) : initialConnection;
+  } catch (error) {
+    console.error(
+      `Warning: not using the default profile: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return initialConnection;
+  }
+}
+
+function profileConnection(config: ProfilesConfig, name: string): typeof initialConnection {
+  const profile = getProfile(config, name);
+  const apiKey = profileApiKey(profile) ?? "";
+  if (!apiKey && profile.email) {
+    console.error(`Profile "${name}" uses email/password; call use_profile to log in`);
+  }
+  return { profile: name, baseUrl: profile.baseUrl, apiKey };
+}
+
+// Undo history outlives client instances, so it survives set_base_url. It is kept per
+// instance: resume IDs mean nothing across instances, and snapshots of one instance must
+// never reach a session connected to another.
+const histories = new Map<string, ResumeHistory>();
+
+function historyFor(baseUrl: string): ResumeHistory {
+  let history = histories.get(baseUrl);
+  if (!history) {
+    const instanceDir = createHash("sha256").update(baseUrl).digest("hex").slice(0, 16);
+    history = new ResumeHistory({
+      limit: HISTORY_LIMIT,
+      directory: HISTORY_DIR ? join(HISTORY_DIR, instanceDir) : undefined,
+    });
+    histories.set(baseUrl, history);
+  }
+  return history;
+}
+
+const dryRunParam = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("Preview the change as a diff without saving it");
+
+// Run a mutating client call; in dry-run mode return the changes it would make instead.
+// Otherwise return warnings about steps that failed after the change was saved.
+async function runMutation(
+  client: RxResumeApiClient,
+  dryRun: boolean,
+  mutation: () => Promise<unknown>
+): Promise<{ preview: ResumeChangePreview[] | null; warnings: string[] }> {
+  if (!dryRun) {
+    return { preview: null, warnings: await client.collectWarnings(mutation) };
+  }
+  return { preview: await client.preview(mutation), warnings: [] };
+}
+
+// Append warnings to a successful tool result
+function withWarnings<T extends { content: Array<{ type: "text"; text: string }> }>(result: T, warnings: string[]): T {
+  for (const warning of warnings) {
+    result.content.push({ type: "text" as const, text: `Warning: ${warning}` });
+  }
+  return result;
+}
+
+const resumeIdParam = z
+  .string()
+  .optional()
+  .describe("The resume ID (defaults to the session's default resume, see set_default_resume)");
+
+const importModeParam = z
+  .enum(["replace", "append", "merge"])
+  .optional()
+  .default("merge")
+  .describe(
+    "For an existing resume: replace the items of imported sections, append to them, or merge (append only entries not already present and fill only empty basics)"
+  );
+
+function previewResult(previews: ResumeChangePreview[]) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({ dry_run: true, previews }, null, 2),
+      },
+    ],
+  };
+}
+
+function describeAuthCheck(check: AuthCheck): string {
+  if (check.status === "none") return "not authenticated (call authenticate or use_profile)";
+  const credentials = check.method === "api_key" ? "API key" : "login session";
+  if (check.status === "failed") return `${credentials} not accepted: ${check.message}`;
+  return check.user ? `signed in as ${check.user.name} (${check.user.email})` : `${credentials} accepted`;
+}
+
+// Accepts either a full Resume (as from export_resume_json) or bare ResumeData
+function parseResumeSnapshot(json: string): ResumeData {
+  const parsed = JSON.parse(json) as { data?: unknown };
+  const data = (parsed.data && typeof parsed.data === "object" ? parsed.data : parsed) as Partial<ResumeData>;
+  if (!data.basics || !data.sections || !data.metadata) {
+    throw new Error("Snapshot must contain basics, sections and metadata (or a data object that does)");
+  }
+  return data as ResumeData;
+}
+
+// Apply converted content to an existing resume, or create a new resume from it
+async function importIntoResume(
+  client: RxResumeApiClient,
+  imported: ResumeImport,
+  source: string,
+  options: { resumeId?: string; title?: string; slug?: string; mode: ImportMode; dryRun: boolean }
+) {
+  const skipped: SkippedImportItem[] = [];
+  if (options.resumeId) {
+    const resumeId = options.resumeId;
+    const { preview, warnings } = await runMutation(client, options.dryRun, () =>
+      client.mutateResumeData(resumeId, `Import ${source}`, (data) => {
+        const result = applyResumeImport(data, imported, options.mode);
+        skipped.splice(0, skipped.length, ...result.skipped);
+        return result.data;
+      })
+    );
+    if (preview) {
+      const result = previewResult(preview);
+      result.content.push({ type: "text" as const, text: describeResumeImport(imported, skipped) });
+      return result;
+    }
+    return withWarnings({
+      content: [
+        {
+          type: "text" as const,
+          text: `Resume ${resumeId} updated from ${source} (${options.mode}).\n${describeResumeImport(imported, skipped)}`,
+        },
+      ],
+    }, warnings);
+  }
+
+  const title = options.title || imported.basics.name || "Imported Resume";
+  if (options.dryRun) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Dry run: would create resume "${title}".\n${describeResumeImport(imported)}`,
+        },
+      ],
+    };
+  }
+  const resume = await client.createResumeWithData(
+    { title, slug: options.slug || title.toLowerCase().replace(/\s+/g, "-") },
+    (data) => applyResumeImport(data, imported, "replace").data
+  );
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Resume created from ${source}!\nID: ${resume.id}\nTitle: ${resume.title}\nSlug: ${resume.slug}\n${describeResumeImport(imported)}`,
+      },
+    ],
+  };
+}
+
+const RESUMES_URI = "rxresume://resumes";
+
+function resumeUri(resumeId: string): string {
+  return `rxresume://resume/${resumeId}`;
+}
+
+function jsonContents(uri: URL, value: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+// Base URL, credentials and default resume of every connected client, by MCP session ID
+const sessions = new SessionStore();
+
+// Drop the state of an ended session
+export function closeSession(sessionId: string): void {
+  sessions.delete(sessionId);
+}
+
+// Each connection gets its own server; tools resolve the API client from the session
+// of the request, so credentials set in one session never leak into another.
+// Remote (HTTP) clients do not own the machine the server runs on, so tools that touch
+// its filesystem are restricted for them.
+export function createServer(options: { remote: boolean }): McpServer {
+  const server = new McpServer({
+    name: "rxresume-mcp",
+    version: "1.0.0",
+  });
+
+  function newApiClient(url: string): RxResumeApiClient {
+    const client = createApiClient(url);
+    client.setRequestPolicy(REQUEST_POLICY);
+    client.setRefetchAfterWrite(REFETCH_AFTER_WRITE);
+    client.setHistory(historyFor(client.getBaseUrl()));
+    client.setChangeListener(notifyResumeChanged);
+    return client;
+  }
+
+  // State of the session a request belongs to; new sessions start from the environment
+  function session(context: { sessionId?: string }): SessionState {
+    return sessions.get(context.sessionId, () => {
+      const client = newApiClient(initialConnection.baseUrl);
+      // Remote clients authenticate themselves unless the operator shares the startup credentials
+      if (options.remote && !HTTP_SHARE_CREDENTIALS) {
+        return new SessionState(client);
+      }
+      // Auto-configure API key from environment or the startup profile if available
+      if (initialConnection.apiKey) {
+        client.setApiKey(initialConnection.apiKey);
+        if (initialConnection.profile) client.pinCredentials();
+      }
+      return new SessionState(client, initialConnection.profile);
+    });
+  }
+
+  // Completion callbacks get no request context, but a server only ever serves one session
+  function currentClient(): RxResumeApiClient {
+    return session({ sessionId: server.server.transport?.sessionId }).client;
+  }
+
+  server.tool(
+    "authenticate",
+    "Authenticate with Reactive Resume using an API key (recommended for v5) or email/password. API keys can be created in Settings > API Keys in the Reactive Resume dashboard.",
+    {
+      api_key: z.string().optional().describe("API key (recommended for v5 - create in Settings > API Keys)"),
+      identifier: z.string().optional().describe("Username or email address (legacy auth)"),
+      password: z.string().optional().describe("User password (legacy auth)"),
+    },
+    async ({ api_key, identifier, password }, extra) => {
+      try {
+        const apiClient = session(extra).client;
+        // Prefer API key authentication (v5)
+        if (api_key) {
+          apiClient.setApiKey(api_key);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Successfully authenticated with API key`,
+              },
+            ],
+          };
+        }
+      
+        // Fall back to email/password login (legacy)
+        if (identifier && password) {
+          const result = await apiClient.login(identifier, password);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Successfully authenticated as ${result.user.name} (${result.user.email})`,
+              },
+            ],
+          };
+        }
+      
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Please provide either an api_key or both identifier and password`,
+            },
+          ],
+          isError: true,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Authentication failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "set_base_url",
+    "Change the Reactive Resume instance URL. Credentials are kept per instance, so switching back to an instance restores them. Checks the connection and reports whether the session is authenticated on the new instance. Over HTTP only the instances the server's operator allows can be used, and credentials are never carried over.",
+    {
+      url: z.string().url().describe("Base URL of the Reactive Resume instance"),
+      carry_credentials: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Use the current API key or login token on the new instance if this session has no saved credentials for it. Login cookies and credentials from a profile are never carried over."
+        ),
+    },
+    async ({ url, carry_credentials }, extra) => {
+      // Over HTTP the caller must not be able to send credentials it was given for one
+      // instance to a host of its choosing, or make the server reach arbitrary hosts
+      if (options.remote) {
+        const refusal = carry_credentials
+          ? "carry_credentials is not available over HTTP; call authenticate on the new instance instead"
+          : await checkRemoteBaseUrl(url);
+        if (refusal) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Failed to change base URL: ${refusal}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      const state = session(extra);
+      const previous = state.client;
+      const notes: string[] = [];
+      let client = previous;
+
+      if (normalizeBaseUrl(url) !== previous.getBaseUrl()) {
+        const saved = state.savedClient(url);
+        if (saved) {
+          client = saved;
+          notes.push("Restored the credentials this session used on this instance before.");
+        } else {
+          client = newApiClient(url);
+          if (previous.isAuthenticated() && carry_credentials && previous.hasPinnedCredentials()) {
+            notes.push(
+              `The credentials for ${previous.getBaseUrl()} come from a profile and are only used on that instance; call authenticate or use_profile.`
+            );
+          } else if (previous.isAuthenticated() && carry_credentials) {
+            client.copyCredentialsFrom(previous);
+            notes.push(`Carried the credentials over from ${previous.getBaseUrl()}.`);
+          } else if (previous.isAuthenticated()) {
+            notes.push(
+              `The credentials for ${previous.getBaseUrl()} were not carried over; set carry_credentials to reuse them, or call authenticate.`
+            );
+          }
+        }
+        if (previous.isAuthenticated()) {
+          notes.push(`The credentials for ${previous.getBaseUrl()} are kept; switching back restores them.`);
+        }
+        state.switchClient(client);
+        state.profile = null;
+      }
+
+      const connection = await client.healthCheck().then(
+        (health) => `ok (${health.status})`,
+        (error) => `failed: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+      const auth = await client.checkAuth();
+      const text = [
+        `${client === previous ? "Base URL unchanged" : "Base URL changed to"}: ${client.getBaseUrl()}`,
+        `Connection: ${connection}`,
+        `Authentication: ${describeAuthCheck(auth)}`,
+        ...notes,
+      ].join("\n");
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text,
+          },
+        ],
+      };
+    }
+  );
+
+  // The reason a remote client may not switch to url, or null if it may
+  async function checkRemoteBaseUrl(url: string): Promise<string | null> {
+    let profiles: string[] = [];
+    try {
+      if (HTTP_PROFILES.length > 0) {
+        profiles = Object.values((await loadVisibleProfiles()).profiles).map((profile) => profile.baseUrl);
+      }
+    } catch (error) {
+      console.error("Error loading profiles for set_base_url:", error);
+    }
+    const allowed = [...new Set([initialConnection.baseUrl, ...HTTP_BASE_URLS, ...profiles].map(normalizeBaseUrl))];
+    if (allowed.includes(normalizeBaseUrl(url))) return null;
+    return `${url} is not one of the instances this server allows (${allowed.join(", ")})`;
+  }
+
+  // Profiles carry the operator's credentials, so remote clients only get the ones listed
+  // in RXRESUME_HTTP_PROFILES, and no profile tools at all if there are none
+  async function loadVisibleProfiles(): Promise<ProfilesConfig> {
+    const config = await loadProfilesConfig(CONFIG_PATH);
+    if (!options.remote) return config;
+    const profiles = Object.fromEntries(Object.entries(config.profiles).filter(([name]) => HTTP_PROFILES.includes(name)));
+    return { profiles, default: config.default && config.default in profiles ? config.default : undefined };
+  }
+
+  if (!options.remote || HTTP_PROFILES.length > 0) {
+    server.tool(
+      "list_profiles",
+      `List the Reactive Resume instance profiles defined in the config file (${CONFIG_PATH})`,
+      {},
+      async (_args, extra) => {
+        try {
+          const config = await loadVisibleProfiles();
+          const names = Object.keys(config.profiles);
+          if (names.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `No profiles configured. Define them in ${CONFIG_PATH} (see the README).`,
+                },
+              ],
+            };
+          }
+          const active = session(extra).profile;
+          const formatted = names.map((name) => {
+            const profile = config.profiles[name];
+            return {
+              name,
+              baseUrl: profile.baseUrl,
+              description: profile.description,
+              auth: describeProfileAuth(profile),
+              default: name === config.default,
+              active: name === active,
+            };
+          });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(formatted, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Failed to list profiles: ${error instanceof Error ? error.message : "Unknown error"}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "use_profile",
+      "Switch this session to a named instance profile from the config file: sets the base URL and authenticates with the profile's API key or email/password",
+      {
+        name: z.string().describe("The profile name (see list_profiles)"),
+      },
+      async ({ name }, extra) => {
+        try {
+          const profile = getProfile(await loadVisibleProfiles(), name);
+          const client = newApiClient(profile.baseUrl);
+          const apiKey = profileApiKey(profile);
+          let auth = "not authenticated";
+          if (apiKey) {
+            client.setApiKey(apiKey);
+            auth = "authenticated with API key";
+          } else if (profile.email && profile.password) {
+            const result = await client.login(profile.email, profile.password);
+            auth = `authenticated as ${result.user.name} (${result.user.email})`;
+          }
+          // A profile's credentials are for its own instance, never to be carried elsewhere
+          client.pinCredentials();
+
+          const state = session(extra);
+          state.switchClient(client);
+          state.profile = name;
+          state.defaultResumeId = null;
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Using profile "${name}" (${profile.baseUrl}), ${auth}.`,
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Failed to use profile: ${error instanceof Error ? error.message : "Unknown error"}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+  }
+
+  server.tool(
+    "check_connection",
+    "Check if the Reactive Resume instance is accessible",
+    {},
+    async (_args, extra) => {
+      try {
+        const apiClient = session(extra).client;
+        const health = await apiClient.healthCheck();
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Connection successful. Server status: ${health.status}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Connection failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "get_current_user",
+    "Get information about the currently authenticated user",
+    {},
+    async (_args, extra) => {
+      try {
+        const apiClient = session(extra).client;
+        const user = await apiClient.getCurrentUser();
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(user, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to get user: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "list_resumes",
+    "List all resumes for the authenticated user",
+    {},
+    async (_args, extra) => {
+      try {
+        const apiClient = session(extra).client;
+        const resumes = await apiClient.listResumes();
+        if (resumes.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No resumes found. Create one using the create_resume tool.",
+              },
+            ],
+          };
+        }
+        const formatted = resumes.map((r) => ({
+          id: r.id,
+          title: r.title,
+          slug: r.slug,
+          visibility: r.visibility,
+          locked: r.locked,
+          updatedAt: r.updatedAt,
+        }));
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(formatted, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to list resumes: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "set_default_resume",
+    "Set the resume this session's tools use when resume_id is omitted. Call without resume_id to clear it.",
+    {
+      resume_id: z.string().optional().describe("The resume ID (omit to clear the default)"),
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        if (!resume_id) {
+          state.defaultResumeId = null;
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Default resume cleared.",
+              },
+            ],
+          };
+        }
+        const resume = await state.client.getResume(resume_id);
+        state.defaultResumeId = resume.id;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Default resume set to "${resume.title}" (${resume.id}).`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to set default resume: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "get_resume",
+    "Get full details of a specific resume by ID. Writes are checked for conflicting edits made elsewhere since the last read, so read a resume before editing it: the first write to a resume this session has not read (e.g. after a restart or set_base_url) is not checked.",
+    {
+      resume_id: resumeIdParam,
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(resume, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to get resume: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "get_resume_section",
+    "Get a specific section from a resume",
+    {
+      resume_id: resumeIdParam,
+      section: z
+        .enum([
+          "basics",
+          "summary",
+          "experience",
+          "education",
+          "skills",
+          "projects",
+          "certifications",
+          "languages",
+          "awards",
+          "publications",
+          "volunteer",
+          "interests",
+          "references",
+          "profiles",
+          "custom",
+        ])
+        .describe("Section name to retrieve (custom returns all custom sections keyed by ID)"),
+    },
+    async ({ resume_id, section }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        let data: unknown;
+        if (section === "basics") {
+          data = resume.data.basics;
+        } else if (section === "custom") {
+          data = resume.data.sections.custom;
+        } else {
+          data = resume.data.sections[section as SectionName];
+        }
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(data, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to get section: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "create_resume",
+    "Create a new resume",
+    {
+      title: z.string().describe("Resume title"),
+      slug: z
+        .string()
+        .optional()
+        .describe("URL-friendly slug (auto-generated if not provided)"),
+      visibility: z
+        .enum(["private", "public"])
+        .optional()
+        .default("private")
+        .describe("Resume visibility"),
+    },
+    async ({ title, slug, visibility }, extra) => {
+      try {
+        const apiClient = session(extra).client;
+        const resume = await apiClient.createResume({
+          title,
+          slug: slug || title.toLowerCase().replace(/\s+/g, "-"),
+          visibility,
+        });
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Resume created successfully!\nID: ${resume.id}\nTitle: ${resume.title}\nSlug: ${resume.slug}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to create resume: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "duplicate_resume",
+    "Create a new resume with a copy of an existing resume's content and design, optionally hiding sections or dropping items by tag or keyword (e.g. to tailor a master resume for a job)",
+    {
+      resume_id: z.string().optional().describe("The resume ID to copy (defaults to the session's default resume, see set_default_resume)"),
+      title: z.string().describe("Title of the new resume"),
+      slug: z
+        .string()
+        .optional()
+        .describe("URL-friendly slug (auto-generated if not provided)"),
+      regenerate_ids: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Give every item in the copy a new ID"),
+      hide_sections: z
+        .array(z.string())
+        .optional()
+        .describe('Sections to hide in the copy, by name (e.g. "projects", "summary") or "custom.<id>"'),
+      drop_tags: z
+        .array(z.string())
+        .optional()
+        .describe("Drop items whose keywords include any of these tags (case-insensitive)"),
+      drop_keywords: z
+        .array(z.string())
+        .optional()
+        .describe("Drop items whose text (names, descriptions, keywords, ...) mentions any of these words (case-insensitive)"),
+    },
+    async ({ resume_id, title, slug, regenerate_ids, hide_sections, drop_tags, drop_keywords }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const dropped: DroppedItem[] = [];
+        const resume = await apiClient.duplicateResume(
+          resumeId,
+          { title, slug: slug || title.toLowerCase().replace(/\s+/g, "-") },
+          (data) => {
+            let result = data;
+            if (drop_tags?.length || drop_keywords?.length) {
+              const filtered = dropItems(
+                result,
+                (item) => itemHasTag(item, drop_tags ?? []) || itemMentions(item, drop_keywords ?? [])
+              );
+              dropped.push(...filtered.dropped);
+              result = filtered.data;
+            }
+            if (hide_sections?.length) result = hideSections(result, hide_sections);
+            return regenerate_ids ? regenerateItemIds(result, generateId) : result;
+          }
+        );
+
+        const lines = [
+          `Resume duplicated successfully!`,
+          `ID: ${resume.id}`,
+          `Title: ${resume.title}`,
+          `Slug: ${resume.slug}`,
+        ];
+        if (regenerate_ids) lines.push("Item IDs regenerated");
+        if (hide_sections?.length) lines.push(`Hidden sections: ${hide_sections.join(", ")}`);
+        if (dropped.length > 0) {
+          lines.push(`Dropped ${dropped.length} item(s):`, ...dropped.map((item) => `  - ${item.section}: ${item.label}`));
+        }
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: lines.join("\n"),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to duplicate resume: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "update_resume_basics",
+    "Update basic information (name, headline, email, phone, location, URL)",
+    {
+      resume_id: resumeIdParam,
+      name: z.string().optional().describe("Full name"),
+      headline: z.string().optional().describe("Professional headline/title"),
+      email: z.string().email().optional().describe("Email address"),
+      phone: z.string().optional().describe("Phone number"),
+      location: z.string().optional().describe("Location/Address"),
+      url_label: z.string().optional().describe("Website label"),
+      url_href: z.string().url().optional().describe("Website URL"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, name, headline, email, phone, location, url_label, url_href, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const updates: BasicsUpdates = {};
+        if (name !== undefined) updates.name = name;
+        if (headline !== undefined) updates.headline = headline;
+        if (email !== undefined) updates.email = email;
+        if (phone !== undefined) updates.phone = phone;
+        if (location !== undefined) updates.location = location;
+        if (url_label !== undefined || url_href !== undefined) {
+          updates.url = {};
+          if (url_label !== undefined) updates.url.label = url_label;
+          if (url_href !== undefined) updates.url.href = url_href;
+        }
+
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.updateBasics(resumeId, updates));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: "Basic information updated successfully.",
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to update basics: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "update_summary",
+    "Update the professional summary section",
+    {
+      resume_id: resumeIdParam,
+      content: z.string().describe("The summary content (supports HTML/Markdown)"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, content: summaryContent, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.updateSummary(resumeId, summaryContent));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: "Summary updated successfully.",
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to update summary: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_experience",
+    "Add a work experience entry",
+    {
+      resume_id: resumeIdParam,
+      company: z.string().describe("Company name"),
+      position: z.string().describe("Job title/position"),
+      location: z.string().optional().default("").describe("Job location"),
+      date: z.string().optional().default("").describe("Date range (e.g., 'Jan 2020 - Present')"),
+      summary: z.string().optional().default("").describe("Description of responsibilities and achievements (supports HTML)"),
+      url: z.string().url().optional().describe("Company website URL"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, company, position, location, date, summary, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: ExperienceItem = RxResumeApiClient.buildSectionItem("experience", generateId(), {
+          company,
+          position,
+          location: location || "",
+          period: date || "",
+          description: summary || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "experience", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Experience added: ${position} at ${company}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add experience: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_education",
+    "Add an education entry",
+    {
+      resume_id: resumeIdParam,
+      institution: z.string().describe("School/University name"),
+      study_type: z.string().describe("Degree type (e.g., 'Bachelor of Science')"),
+      area: z.string().describe("Field of study"),
+      score: z.string().optional().default("").describe("GPA or grade"),
+      date: z.string().optional().default("").describe("Date range"),
+      summary: z.string().optional().default("").describe("Additional details"),
+      url: z.string().url().optional().describe("Institution website"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, institution, study_type, area, score, date, summary, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: EducationItem = RxResumeApiClient.buildSectionItem("education", generateId(), {
+          school: institution,
+          degree: study_type,
+          area,
+          grade: score || "",
+          period: date || "",
+          description: summary || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "education", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Education added: ${study_type} in ${area} at ${institution}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add education: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_skill",
+    "Add a skill entry",
+    {
+      resume_id: resumeIdParam,
+      name: z.string().describe("Skill name or category"),
+      description: z.string().optional().default("").describe("Skill description"),
+      level: z.number().min(0).max(5).optional().default(3).describe("Proficiency level (0-5)"),
+      keywords: z.array(z.string()).optional().default([]).describe("Related keywords/technologies"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, name, description, level, keywords, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: SkillItem = RxResumeApiClient.buildSectionItem("skills", generateId(), {
+          name,
+          proficiency: description || "",
+          level: level ?? 3,
+          keywords: keywords || [],
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "skills", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Skill added: ${name}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add skill: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_project",
+    "Add a project entry",
+    {
+      resume_id: resumeIdParam,
+      name: z.string().describe("Project name"),
+      description: z
+        .string()
+        .optional()
+        .default("")
+        .describe("Description, e.g. what it does and the technologies used (supports HTML)"),
+      date: z.string().optional().default("").describe("Project date/duration"),
+      url: z.string().url().optional().describe("Project URL"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, name, description, date, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: ProjectItem = RxResumeApiClient.buildSectionItem("projects", generateId(), {
+          name,
+          period: date || "",
+          description: description || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "projects", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Project added: ${name}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add project: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_certification",
+    "Add a certification entry",
+    {
+      resume_id: resumeIdParam,
+      title: z.string().describe("Certification name"),
+      issuer: z.string().optional().default("").describe("Issuing organization"),
+      date: z.string().optional().default("").describe("Date obtained (e.g., 'March 2023')"),
+      description: z.string().optional().default("").describe("Additional details (supports HTML)"),
+      url: z.string().url().optional().describe("Credential or verification URL"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, title, issuer, date, description, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: CertificationItem = RxResumeApiClient.buildSectionItem("certifications", generateId(), {
+          title,
+          issuer: issuer || "",
+          date: date || "",
+          description: description || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "certifications", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Certification added: ${title}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add certification: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_language",
+    "Add a language entry",
+    {
+      resume_id: resumeIdParam,
+      language: z.string().describe("Language name"),
+      fluency: z.string().optional().default("").describe("Fluency description (e.g., 'Native', 'Professional working proficiency')"),
+      level: z.number().min(0).max(5).optional().default(3).describe("Proficiency level (0-5)"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, language, fluency, level, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: LanguageItem = RxResumeApiClient.buildSectionItem("languages", generateId(), {
+          language,
+          fluency: fluency || "",
+          level: level ?? 3,
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "languages", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Language added: ${language}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add language: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_award",
+    "Add an award entry",
+    {
+      resume_id: resumeIdParam,
+      title: z.string().describe("Award title"),
+      awarder: z.string().optional().default("").describe("Awarding organization"),
+      date: z.string().optional().default("").describe("Date received"),
+      description: z.string().optional().default("").describe("Additional details (supports HTML)"),
+      url: z.string().url().optional().describe("Award URL"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, title, awarder, date, description, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: AwardItem = RxResumeApiClient.buildSectionItem("awards", generateId(), {
+          title,
+          awarder: awarder || "",
+          date: date || "",
+          description: description || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "awards", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Award added: ${title}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add award: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_publication",
+    "Add a publication entry",
+    {
+      resume_id: resumeIdParam,
+      title: z.string().describe("Publication title"),
+      publisher: z.string().optional().default("").describe("Publisher, journal or conference"),
+      date: z.string().optional().default("").describe("Publication date"),
+      description: z.string().optional().default("").describe("Abstract or additional details (supports HTML)"),
+      url: z.string().url().optional().describe("Publication URL"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, title, publisher, date, description, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: PublicationItem = RxResumeApiClient.buildSectionItem("publications", generateId(), {
+          title,
+          publisher: publisher || "",
+          date: date || "",
+          description: description || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "publications", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Publication added: ${title}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add publication: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_volunteer",
+    "Add a volunteer experience entry",
+    {
+      resume_id: resumeIdParam,
+      organization: z.string().describe("Organization name"),
+      location: z.string().optional().default("").describe("Location"),
+      period: z.string().optional().default("").describe("Date range (e.g., '2019 - 2021')"),
+      description: z.string().optional().default("").describe("Role and contributions (supports HTML)"),
+      url: z.string().url().optional().describe("Organization website"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, organization, location, period, description, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: VolunteerItem = RxResumeApiClient.buildSectionItem("volunteer", generateId(), {
+          organization,
+          location: location || "",
+          period: period || "",
+          description: description || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "volunteer", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Volunteer experience added: ${organization}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add volunteer experience: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_interest",
+    "Add an interest entry",
+    {
+      resume_id: resumeIdParam,
+      name: z.string().describe("Interest name"),
+      keywords: z.array(z.string()).optional().default([]).describe("Related keywords"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, name, keywords, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: InterestItem = RxResumeApiClient.buildSectionItem("interests", generateId(), {
+          name,
+          keywords: keywords || [],
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "interests", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Interest added: ${name}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add interest: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_reference",
+    "Add a reference entry",
+    {
+      resume_id: resumeIdParam,
+      name: z.string().describe("Reference's full name"),
+      position: z.string().optional().default("").describe("Reference's position and company"),
+      phone: z.string().optional().default("").describe("Phone number"),
+      description: z.string().optional().default("").describe("Relationship or testimonial (supports HTML)"),
+      url: z.string().url().optional().describe("Reference's website or profile URL"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, name, position, phone, description, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: ReferenceItem = RxResumeApiClient.buildSectionItem("references", generateId(), {
+          name,
+          position: position || "",
+          phone: phone || "",
+          description: description || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "references", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Reference added: ${name}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add reference: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_profile",
+    "Add a social/professional profile (e.g., LinkedIn, GitHub)",
+    {
+      resume_id: resumeIdParam,
+      network: z.string().describe("Network name (e.g., 'LinkedIn', 'GitHub')"),
+      username: z.string().describe("Username on the network"),
+      url: z.string().url().optional().describe("Profile URL"),
+      icon: z.string().optional().default("").describe("Icon name (e.g., 'linkedin', 'github')"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, network, username, url, icon, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item: ProfileItem = RxResumeApiClient.buildSectionItem("profiles", generateId(), {
+          network,
+          username,
+          icon: icon || "",
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addSectionItem(resumeId, "profiles", item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Profile added: ${network} (${username})`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add profile: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "update_section_item",
+    "Update an existing item in any section",
+    {
+      resume_id: resumeIdParam,
+      section: z
+        .enum([
+          "experience",
+          "education",
+          "skills",
+          "projects",
+          "certifications",
+          "languages",
+          "awards",
+          "publications",
+          "volunteer",
+          "interests",
+          "references",
+          "profiles",
+        ])
+        .describe("Section name"),
+      item_id: z.string().describe("The item ID to update"),
+      updates: z
+        .string()
+        .describe(
+          "JSON string of fields to update, using v5 field names (e.g. period, description, website: { label, url }, hidden). Legacy names like date, summary, url and visible are translated."
+        ),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section, item_id, updates, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const parsedUpdates = RxResumeApiClient.toSectionItemUpdates(section, JSON.parse(updates));
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.updateSectionItem(resumeId, section, item_id, parsedUpdates));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Item ${item_id} in ${section} updated successfully.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to update item: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "remove_section_item",
+    "Remove an item from a section",
+    {
+      resume_id: resumeIdParam,
+      section: z
+        .enum([
+          "experience",
+          "education",
+          "skills",
+          "projects",
+          "certifications",
+          "languages",
+          "awards",
+          "publications",
+          "volunteer",
+          "interests",
+          "references",
+          "profiles",
+        ])
+        .describe("Section name"),
+      item_id: z.string().describe("The item ID to remove"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section, item_id, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.removeSectionItem(resumeId, section, item_id));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Item removed from ${section}.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to remove item: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "reorder_section_items",
+    "Reorder the items in a section. Provide exactly one of: order (explicit item id order), move_item_id with before or after, or sort_by.",
+    {
+      resume_id: resumeIdParam,
+      section: z
+        .enum([
+          "experience",
+          "education",
+          "skills",
+          "projects",
+          "certifications",
+          "languages",
+          "awards",
+          "publications",
+          "volunteer",
+          "interests",
+          "references",
+          "profiles",
+          "custom",
+        ])
+        .describe("Section name"),
+      section_id: z.string().optional().describe("The custom section ID (required when section is custom)"),
+      order: z
+        .array(z.string())
+        .optional()
+        .describe("Item ids in the desired order; unlisted items keep their relative order after these"),
+      move_item_id: z.string().optional().describe("Item id to move (use with before or after)"),
+      before: z.string().optional().describe("Move the item directly before this item id"),
+      after: z.string().optional().describe("Move the item directly after this item id"),
+      sort_by: z
+        .enum(["period_desc", "period_asc", "name"])
+        .optional()
+        .describe("Sort items: period_desc = reverse-chronological, period_asc = chronological, name = alphabetical"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section, section_id, order, move_item_id, before, after, sort_by, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const strategies = [order, move_item_id, sort_by].filter((value) => value !== undefined);
+        if (strategies.length !== 1) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Please provide exactly one of order, move_item_id or sort_by",
+              },
+            ],
+            isError: true,
+          };
+        }
+        const itemOrder: ItemOrder = order
+          ? { type: "ids", ids: order }
+          : move_item_id
+            ? { type: "move", id: move_item_id, before, after }
+            : { type: "sort", key: sort_by! };
+
+        if (section === "custom" && !section_id) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "section_id is required for custom sections",
+              },
+            ],
+            isError: true,
+          };
+        }
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () =>
+          section === "custom"
+            ? apiClient.reorderCustomSectionItems(resumeId, section_id!, itemOrder)
+            : apiClient.reorderSectionItems(resumeId, section, itemOrder)
+        );
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Items in ${section_id ?? section} reordered.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to reorder items: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "reorder_layout_sections",
+    "Reorder sections within the layout. Provide either page, column and order (explicit section order for that column), or section_id with before or after (which may move it into another column).",
+    {
+      resume_id: resumeIdParam,
+      page: z.number().int().min(0).optional().describe("Layout page index (with column and order)"),
+      column: z.number().int().min(0).optional().describe("Layout column index (with page and order)"),
+      order: z
+        .array(z.string())
+        .optional()
+        .describe("Section ids in the desired order for that column; unlisted sections keep their relative order after these"),
+      section_id: z.string().optional().describe("Section id to move (built-in section name or custom.<id>)"),
+      before: z.string().optional().describe("Place the section directly before this section id"),
+      after: z.string().optional().describe("Place the section directly after this section id"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, page, column, order, section_id, before, after, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        let layoutOrder: LayoutOrder;
+        if (order && page !== undefined && column !== undefined && !section_id) {
+          layoutOrder = { type: "ids", page, column, ids: order };
+        } else if (section_id && !order) {
+          layoutOrder = { type: "move", id: section_id, before, after };
+        } else {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Please provide either page, column and order, or section_id with before or after",
+              },
+            ],
+            isError: true,
+          };
+        }
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.reorderLayoutSections(resumeId, layoutOrder));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: "Layout sections reordered.",
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to reorder layout sections: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "toggle_section_visibility",
+    "Show or hide a section on the resume",
+    {
+      resume_id: resumeIdParam,
+      section: z
+        .enum([
+          "summary",
+          "experience",
+          "education",
+          "skills",
+          "projects",
+          "certifications",
+          "languages",
+          "awards",
+          "publications",
+          "volunteer",
+          "interests",
+          "references",
+          "profiles",
+        ])
+        .describe("Section name"),
+      visible: z.boolean().describe("Whether the section should be visible"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section, visible, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.setSectionVisibility(resumeId, section, visible));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Section ${section} is now ${visible ? "visible" : "hidden"}.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to toggle visibility: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "list_custom_sections",
+    "List the custom sections of a resume with their IDs, item counts and layout placement",
+    {
+      resume_id: resumeIdParam,
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        const sections = Object.values(resume.data.sections.custom).map((section) => {
+          return {
+            id: section.id,
+            name: section.name,
+            visible: section.visible,
+            items: section.items.length,
+            layout: findLayoutPosition(resume.data.metadata.layout, customSectionLayoutId(section.id)),
+          };
+        });
+        if (sections.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No custom sections found. Create one using the create_custom_section tool.",
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(sections, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to list custom sections: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "create_custom_section",
+    "Create a custom section (e.g., 'Patents', 'Speaking') and place it in the resume layout",
+    {
+      resume_id: resumeIdParam,
+      name: z.string().describe("Section heading"),
+      page: z.number().int().min(0).optional().default(0).describe("Layout page index to place the section on"),
+      column: z.number().int().min(0).optional().default(0).describe("Layout column index on that page (0 = main column)"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, name, page, column, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const sectionId = generateId();
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.createCustomSection(resumeId, sectionId, name, { page, column }));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Custom section created: ${name}\nID: ${sectionId}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to create custom section: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "rename_custom_section",
+    "Rename a custom section",
+    {
+      resume_id: resumeIdParam,
+      section_id: z.string().describe("The custom section ID (see list_custom_sections)"),
+      name: z.string().describe("New section heading"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section_id, name, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.renameCustomSection(resumeId, section_id, name));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Custom section ${section_id} renamed to ${name}.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to rename custom section: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "delete_custom_section",
+    "Delete a custom section, its items and its layout placement",
+    {
+      resume_id: resumeIdParam,
+      section_id: z.string().describe("The custom section ID (see list_custom_sections)"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section_id, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.deleteCustomSection(resumeId, section_id));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Custom section ${section_id} deleted.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to delete custom section: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "add_custom_section_item",
+    "Add an item to a custom section",
+    {
+      resume_id: resumeIdParam,
+      section_id: z.string().describe("The custom section ID (see list_custom_sections)"),
+      name: z.string().describe("Item title"),
+      location: z.string().optional().default("").describe("Location"),
+      period: z.string().optional().default("").describe("Date or date range"),
+      description: z.string().optional().default("").describe("Details (supports HTML)"),
+      keywords: z.array(z.string()).optional().default([]).describe("Keywords"),
+      url: z.string().url().optional().describe("Related URL"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section_id, name, location, period, description, keywords, url, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const item = RxResumeApiClient.buildCustomSectionItem(generateId(), {
+          name,
+          location: location || "",
+          period: period || "",
+          description: description || "",
+          keywords: keywords || [],
+          website: { label: "", url: url || "" },
+        });
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.addCustomSectionItem(resumeId, section_id, item));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Item added to custom section ${section_id}: ${name}\nID: ${item.id}`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to add custom section item: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "update_custom_section_item",
+    "Update an existing item in a custom section",
+    {
+      resume_id: resumeIdParam,
+      section_id: z.string().describe("The custom section ID (see list_custom_sections)"),
+      item_id: z.string().describe("The item ID to update"),
+      updates: z
+        .string()
+        .describe(
+          "JSON string of fields to update (name, location, period, description, keywords, website: { label, url }, hidden)"
+        ),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section_id, item_id, updates, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const parsedUpdates = RxResumeApiClient.toCustomSectionItemUpdates(JSON.parse(updates));
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.updateCustomSectionItem(resumeId, section_id, item_id, parsedUpdates));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Item ${item_id} in custom section ${section_id} updated successfully.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to update custom section item: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "remove_custom_section_item",
+    "Remove an item from a custom section",
+    {
+      resume_id: resumeIdParam,
+      section_id: z.string().describe("The custom section ID (see list_custom_sections)"),
+      item_id: z.string().describe("The item ID to remove"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section_id, item_id, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.removeCustomSectionItem(resumeId, section_id, item_id));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Item removed from custom section ${section_id}.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to remove custom section item: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "get_resume_design",
+    "Get a resume's template, layout, page, theme and typography settings",
+    {
+      resume_id: resumeIdParam,
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        const { template, layout, page, theme, typography } = resume.data.metadata;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ template, layout, page, theme, typography }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to get design: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "set_template",
+    "Switch the resume template",
+    {
+      resume_id: resumeIdParam,
+      template: templateSchema.describe("Template name"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, template, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.setTemplate(resumeId, template));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Template set to ${template}.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to set template: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "set_layout",
+    "Replace the whole layout: an array of pages, each an array of columns, each an array of section ids (built-in section names or custom.<id>)",
+    {
+      resume_id: resumeIdParam,
+      layout: z
+        .array(z.array(z.array(z.string())).min(1))
+        .min(1)
+        .describe("Pages -> columns -> section ids, e.g. [[[\"summary\", \"experience\"], [\"skills\", \"languages\"]]] for one page with two columns"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, layout, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.setLayout(resumeId, layout));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Layout updated: ${layout.length} page(s), ${layout.map((page) => page.length).join("/")} column(s).`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to set layout: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "move_section_in_layout",
+    "Move a section to another page and/or column of the layout",
+    {
+      resume_id: resumeIdParam,
+      section_id: z.string().describe("Section id in the layout (built-in section name or custom.<id>)"),
+      page: z.number().int().min(0).describe("Target page index (use the current page count to add a new page)"),
+      column: z.number().int().min(0).describe("Target column index (0 = main column)"),
+      position: z.number().int().min(0).optional().describe("Position within the column (appended if omitted)"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, section_id, page, column, position, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.moveSectionInLayout(resumeId, section_id, { page, column, index: position }));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Section ${section_id} moved to page ${page}, column ${column}.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to move section: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "set_page_format",
+    "Set the page format and/or margin",
+    {
+      resume_id: resumeIdParam,
+      format: pageFormatSchema.optional().describe("Page format"),
+      margin: z.number().min(0).max(100).optional().describe("Page margin in points"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, format, margin, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        if (format === undefined && margin === undefined) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Please provide a format and/or margin",
+              },
+            ],
+            isError: true,
+          };
+        }
+        const page: { format?: typeof format; margin?: number } = {};
+        if (format !== undefined) page.format = format;
+        if (margin !== undefined) page.margin = margin;
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.updatePage(resumeId, page));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: "Page settings updated successfully.",
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to set page format: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "set_theme_colors",
+    "Set the theme colours as hex values (e.g. #1e3a8a)",
+    {
+      resume_id: resumeIdParam,
+      primary: hexColorSchema.optional().describe("Accent colour"),
+      text: hexColorSchema.optional().describe("Text colour"),
+      background: hexColorSchema.optional().describe("Background colour"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, primary, text, background, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const theme: Record<string, string> = {};
+        if (primary !== undefined) theme.primary = primary;
+        if (text !== undefined) theme.text = text;
+        if (background !== undefined) theme.background = background;
+        if (Object.keys(theme).length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Please provide at least one of primary, text or background",
+              },
+            ],
+            isError: true,
+          };
+        }
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.updateTheme(resumeId, theme));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: "Theme colours updated successfully.",
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to set theme colours: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "set_typography",
+    "Set the font family, font size and/or line height",
+    {
+      resume_id: resumeIdParam,
+      font_family: z.string().min(1).optional().describe("Font family (e.g., 'IBM Plex Sans')"),
+      font_size: z.number().min(6).max(32).optional().describe("Font size in pixels"),
+      line_height: z.number().min(0.5).max(3).optional().describe("Line height multiplier"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, font_family, font_size, line_height, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () =>
+          apiClient.updateTypography(resumeId, {
+            family: font_family,
+            size: font_size,
+            lineHeight: line_height,
+          })
+        );
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: "Typography updated successfully.",
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to set typography: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "get_custom_css",
+    "Get the resume's custom CSS and whether it is applied",
+    {
+      resume_id: resumeIdParam,
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(resume.data.metadata.css, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to get custom CSS: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "set_custom_css",
+    "Replace or append the resume's custom CSS and/or toggle whether it is applied. The CSS is checked for syntax errors; @import rules and url() references to remote hosts are stripped.",
+    {
+      resume_id: resumeIdParam,
+      css: z.string().optional().describe("CSS to write"),
+      mode: z
+        .enum(["replace", "append"])
+        .optional()
+        .default("replace")
+        .describe("Replace the existing CSS or append to it"),
+      visible: z.boolean().optional().describe("Whether the custom CSS is applied to the resume"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, css, mode, visible, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        if (css === undefined && visible === undefined) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Please provide css and/or visible",
+              },
+            ],
+            isError: true,
+          };
+        }
+        const sanitized = css !== undefined ? sanitizeCss(css) : undefined;
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.updateCustomCss(resumeId, { value: sanitized?.css, mode, visible }));
+        if (preview) return previewResult(preview);
+        const lines = ["Custom CSS updated successfully."];
+        if (sanitized && sanitized.removed.length > 0) {
+          lines.push("Removed external resource references:", ...sanitized.removed.map((source) => `  - ${source}`));
+        }
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: lines.join("\n"),
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to set custom CSS: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "list_resume_history",
+    "List the snapshots recorded before each change to a resume, newest first",
+    {
+      resume_id: resumeIdParam,
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        // Snapshots hold the resume's content, so only show them to sessions that can read it
+        await apiClient.getResume(resumeId);
+        const revisions = (await apiClient.getHistory()?.list(resumeId)) ?? [];
+        if (revisions.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No history recorded for this resume yet.",
+              },
+            ],
+          };
+        }
+        const formatted = revisions.map((revision) => ({
+          id: revision.id,
+          createdAt: revision.createdAt,
+          description: revision.description,
+        }));
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(formatted, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to list history: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "undo_last_change",
+    "Undo the most recent change made to a resume through this server",
+    {
+      resume_id: resumeIdParam,
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        if (dry_run) {
+          return previewResult(await apiClient.preview(() => apiClient.undoLastChange(resumeId)));
+        }
+        const { revision } = await apiClient.undoLastChange(resumeId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Undid: ${revision.description} (${revision.createdAt})`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to undo: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "restore_resume_revision",
+    "Restore a resume to a snapshot from its history (the current state is kept in history, so this can be undone)",
+    {
+      resume_id: resumeIdParam,
+      revision_id: z.string().describe("The revision ID (see list_resume_history)"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, revision_id, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.restoreRevision(resumeId, revision_id));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Resume restored to revision ${revision_id}.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to restore revision: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "delete_resume",
+    "Delete a resume permanently",
+    {
+      resume_id: z.string().describe("The resume ID to delete"),
+      confirm: z.boolean().describe("Must be true to confirm deletion"),
+    },
+    async ({ resume_id, confirm }, extra) => {
+      if (!confirm) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Deletion cancelled. Set confirm to true to delete.",
+            },
+          ],
+        };
+      }
+      try {
+        const apiClient = session(extra).client;
+        await apiClient.deleteResume(resume_id);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Resume deleted successfully.",
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to delete resume: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "export_resume_json",
+    "Export a resume as JSON",
+    {
+      resume_id: resumeIdParam,
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(resume, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to export: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "export_resume_pdf",
+    "Render a resume to PDF on the Reactive Resume server. Saves it to a file or returns it as an embedded resource, and reports the page count.",
+    {
+      resume_id: resumeIdParam,
+      destination: z
+        .enum(["file", "resource"])
+        .optional()
+        .describe(
+          "Write the PDF to the output directory (the default locally), or return it inline as an embedded resource (the default, and the only option, when the server is reached over HTTP)"
+        ),
+      output_dir: z
+        .string()
+        .optional()
+        .describe("Subdirectory of RXRESUME_OUTPUT_DIR to write the PDF to"),
+      filename: z
+        .string()
+        .optional()
+        .describe("File name for the PDF (defaults to the resume slug)"),
+      overwrite: z.boolean().optional().default(false).describe("Replace an existing file of the same name"),
+    },
+    async ({ resume_id, destination = options.remote ? "resource" : "file", output_dir, filename, overwrite }, extra) => {
+      try {
+        // The output directory is shared by all sessions and remote clients cannot open its files
+        if (options.remote && destination === "file") {
+          throw new Error('destination "file" is not available over HTTP; use "resource" to receive the PDF');
+        }
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        const pdf = Buffer.from(await apiClient.printResume(resumeId));
+        const pages = countPdfPages(pdf);
+        const summary = `${pages === null ? "unknown number of" : pages} page(s), ${(pdf.length / 1024).toFixed(1)} KB`;
+
+        if (destination === "resource") {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `PDF for "${resume.title}": ${summary}`,
+              },
+              {
+                type: "resource" as const,
+                resource: {
+                  uri: `rxresume://resume/${resumeId}/pdf`,
+                  mimeType: "application/pdf",
+                  blob: pdf.toString("base64"),
+                },
+              },
+            ],
+          };
+        }
+
+        const name = (filename || resume.slug || resumeId).replace(/[^\w.-]+/g, "-").replace(/(\.pdf)?$/i, ".pdf");
+        const root = resolve(OUTPUT_DIR);
+        const directory = resolve(root, output_dir || "");
+        const inside = relative(root, directory);
+        if (inside.startsWith("..") || isAbsolute(inside)) {
+          throw new Error(`output_dir must be inside the output directory ${root}`);
+        }
+        await mkdir(directory, { recursive: true });
+        const path = join(directory, name);
+        try {
+          await writeFile(path, pdf, { flag: overwrite ? "w" : "wx" });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+            throw new Error(`${path} already exists; pass overwrite: true to replace it`);
+          }
+          throw error;
+        }
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `PDF saved to ${path}\n${summary}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to export PDF: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "export_json_resume",
+    "Export a resume as a JSON Resume (jsonresume.org) v1 document, for use with JSON Resume themes and tooling",
+    {
+      resume_id: resumeIdParam,
+      include_hidden: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Include hidden sections and items"),
+    },
+    async ({ resume_id, include_hidden }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        const { document, skipped } = toJsonResume(resume.data, { includeHidden: include_hidden });
+        const content = [{ type: "text" as const, text: JSON.stringify(document, null, 2) }];
+        if (skipped.length > 0) {
+          content.push({
+            type: "text" as const,
+            text: `Not representable in JSON Resume and left out:\n${skipped.map((entry) => `  - ${entry}`).join("\n")}`,
+          });
+        }
+        return { content };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to export JSON Resume: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "export_resume_markdown",
+    "Export a resume as Markdown, following the resume's layout and leaving out hidden sections and items. Useful for emails, READMEs and prompts.",
+    {
+      resume_id: resumeIdParam,
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: renderResumeMarkdown(resume),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to export Markdown: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "export_resume_text",
+    "Export a resume as ATS-friendly plain text, following the resume's layout and leaving out hidden sections and items. Useful for job portal forms.",
+    {
+      resume_id: resumeIdParam,
+    },
+    async ({ resume_id }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const resume = await apiClient.getResume(resumeId);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: renderResumeText(resume),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to export text: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "import_json_resume",
+    "Import a JSON Resume (jsonresume.org) v1 document into a new resume or an existing one. Reports any fields that have no Reactive Resume equivalent.",
+    {
+      document: z.string().describe("JSON Resume v1 document (https://jsonresume.org/schema) as a JSON string"),
+      resume_id: z
+        .string()
+        .optional()
+        .describe("Existing resume to import into. A new resume is created if omitted."),
+      title: z
+        .string()
+        .optional()
+        .describe("Title for the new resume (defaults to the name in the document)"),
+      slug: z
+        .string()
+        .optional()
+        .describe("URL-friendly slug for the new resume (auto-generated if not provided)"),
+      mode: importModeParam,
+      dry_run: dryRunParam,
+    },
+    async ({ document, resume_id, title, slug, mode, dry_run }, extra) => {
+      try {
+        const apiClient = session(extra).client;
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(document);
+        } catch {
+          throw new Error("document is not valid JSON");
+        }
+        const imported = fromJsonResume(parsed, generateId);
+        return await importIntoResume(apiClient, imported, "JSON Resume", {
+          resumeId: resume_id,
+          title,
+          slug,
+          mode,
+          dryRun: dry_run,
+        });
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to import JSON Resume: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "import_linkedin_export",
+    "Import a LinkedIn data export (Settings > Data privacy > Get a copy of your data) into a new or existing resume: profile, positions, education, skills, certifications, languages and projects. When merging, entries already on the resume (same company and position, school and degree, ...) are skipped.",
+    {
+      path: z
+        .string()
+        .optional()
+        .describe(
+          "Path on the server's machine to the LinkedIn data export ZIP, a directory of its extracted CSV files, or a single CSV file (not available when the server is reached over HTTP)"
+        ),
+      content_base64: z
+        .string()
+        .optional()
+        .describe("The export ZIP or a single CSV file, base64-encoded (alternative to path)"),
+      filename: z
+        .string()
+        .optional()
+        .describe("File name of content_base64 when it is a single CSV file, e.g. Positions.csv"),
+      resume_id: z
+        .string()
+        .optional()
+        .describe("Existing resume to import into. A new resume is created if omitted."),
+      title: z
+        .string()
+        .optional()
+        .describe("Title for the new resume (defaults to the name in the export)"),
+      slug: z
+        .string()
+        .optional()
+        .describe("URL-friendly slug for the new resume (auto-generated if not provided)"),
+      mode: importModeParam,
+      dry_run: dryRunParam,
+    },
+    async ({ path, content_base64, filename, resume_id, title, slug, mode, dry_run }, extra) => {
+      try {
+        const apiClient = session(extra).client;
+        if ((path === undefined) === (content_base64 === undefined)) {
+          throw new Error("Provide exactly one of path or content_base64");
+        }
+        if (path !== undefined && options.remote) {
+          throw new Error("path cannot be read when the server is reached over HTTP; send the file as content_base64");
+        }
+        const exported =
+          path !== undefined
+            ? await readLinkedInExport(path)
+            : parseLinkedInExport(Buffer.from(content_base64!, "base64"), filename || "upload");
+        const imported = fromLinkedInExport(exported, generateId);
+        return await importIntoResume(apiClient, imported, "LinkedIn export", {
+          resumeId: resume_id,
+          title,
+          slug,
+          mode,
+          dryRun: dry_run,
+        });
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to import LinkedIn export: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "diff_resumes",
+    "Compare a resume with another resume, a revision from its history, or a saved JSON snapshot. Reports added/removed/modified items per section, basics field changes and metadata changes.",
+    {
+      resume_id: z.string().optional().describe("The resume ID to compare from (defaults to the session's default resume, see set_default_resume)"),
+      other_resume_id: z.string().optional().describe("Resume ID to compare against"),
+      revision_id: z.string().optional().describe("Revision ID from this resume's history to compare against"),
+      snapshot: z
+        .string()
+        .optional()
+        .describe("JSON snapshot to compare against (output of export_resume_json, or resume data with basics/sections/metadata)"),
+    },
+    async ({ resume_id, other_resume_id, revision_id, snapshot }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        if ([other_resume_id, revision_id, snapshot].filter((value) => value !== undefined).length !== 1) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Please provide exactly one of other_resume_id, revision_id or snapshot",
+              },
+            ],
+            isError: true,
+          };
+        }
+        // Also checks this session may read the resume before any of its history is used
+        const resume = await apiClient.getResume(resumeId);
+        let other: ResumeData;
+        if (other_resume_id) {
+          other = (await apiClient.getResume(other_resume_id)).data;
+        } else if (revision_id) {
+          const revision = await apiClient.getHistory()?.get(resumeId, revision_id);
+          if (!revision) throw new Error(`Revision ${revision_id} not found`);
+          other = revision.data;
+        } else {
+          other = parseResumeSnapshot(snapshot!);
+        }
+
+        const diff = diffResumeData(resume.data, other);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: formatResumeDiff(diff),
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify(diff, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to diff resumes: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "update_resume_visibility",
+    "Change resume visibility (public/private)",
+    {
+      resume_id: resumeIdParam,
+      visibility: z.enum(["public", "private"]).describe("New visibility setting"),
+      dry_run: dryRunParam,
+    },
+    async ({ resume_id, visibility, dry_run }, extra) => {
+      try {
+        const state = session(extra);
+        const apiClient = state.client;
+        const resumeId = state.resolveResumeId(resume_id);
+        const { preview, warnings } = await runMutation(apiClient, dry_run, () => apiClient.updateResume(resumeId, { visibility }));
+        if (preview) return previewResult(preview);
+        return withWarnings({
+          content: [
+            {
+              type: "text" as const,
+              text: `Resume visibility set to ${visibility}.`,
+            },
+          ],
+        }, warnings);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Failed to update visibility: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Prompts: guided workflows that embed the resume and chain the tools above
+
+  const promptResumeId = completable(z.string().describe("The resume ID"), async (value) => {
+    const resumes = await currentClient().listResumes().catch(() => []);
+    return resumes.map((resume) => resume.id).filter((id) => id.startsWith(value));
+  });
+
+  server.prompt(
+    "tailor_resume_to_job",
+    "Tailor a resume to a job description: match keywords, rewrite the summary, reorder and hide items",
+    {
+      resume_id: promptResumeId,
+      job_description: z.string().describe("The full job description"),
+      keep_original: z
+        .enum(["yes", "no"])
+        .optional()
+        .describe('Work on a copy made with duplicate_resume (default "yes")'),
+    },
+    async ({ resume_id, job_description, keep_original }, extra) =>
+      tailorResumePrompt(await session(extra).client.getResume(resume_id), job_description, keep_original !== "no")
+  );
+
+  server.prompt(
+    "rewrite_experience_bullets",
+    "Rewrite experience bullet points to lead with measurable results",
+    {
+      resume_id: promptResumeId,
+      item_id: z.string().optional().describe("Only rewrite this experience item (default: all visible items)"),
+    },
+    async ({ resume_id, item_id }, extra) =>
+      rewriteBulletsPrompt(await session(extra).client.getResume(resume_id), item_id)
+  );
+
+  server.prompt(
+    "condense_to_one_page",
+    "Condense a resume to fit on one page, checking the result with a PDF export",
+    {
+      resume_id: promptResumeId,
+    },
+    async ({ resume_id }, extra) => condenseToOnePagePrompt(await session(extra).client.getResume(resume_id))
+  );
+
+  server.prompt(
+    "proofread_resume",
+    "Proofread a resume for spelling, grammar and consistency, then apply the fixes",
+    {
+      resume_id: promptResumeId,
+      locale: z.string().optional().describe('Language and spelling conventions, e.g. "en-US" or "en-GB"'),
+    },
+    async ({ resume_id, locale }, extra) => proofreadPrompt(await session(extra).client.getResume(resume_id), locale)
+  );
+
+  // Resources: resumes can be attached as context without a tool call
+
+  // Resource URIs clients have subscribed to for update notifications
+  const subscriptions = new Set<string>();
+
+  // Tell subscribed clients about changes made through the API client
+  function notifyResumeChanged(...[resumeId, change]: Parameters<ResumeChangeListener>): void {
+    if (!server.isConnected()) return;
+    if (change !== "updated") server.sendResourceListChanged();
+    const prefix = resumeUri(resumeId);
+    for (const uri of subscriptions) {
+      if (uri === RESUMES_URI || uri === prefix || uri.startsWith(`${prefix}/`)) {
+        server.server.sendResourceUpdated({ uri }).catch(() => undefined);
+      }
+    }
+  }
+
+  server.resource(
+    "resumes",
+    RESUMES_URI,
+    { description: "All resumes of the authenticated user", mimeType: "application/json" },
+    async (uri, extra) => jsonContents(uri, await session(extra).client.listResumes())
+  );
+
+  server.resource(
+    "resume",
+    new ResourceTemplate("rxresume://resume/{id}", {
+      list: async (extra) => {
+        try {
+          const resumes = await session(extra).client.listResumes();
+          return {
+            resources: resumes.map((resume) => ({
+              uri: resumeUri(resume.id),
+              name: resume.title,
+              mimeType: "application/json",
+            })),
+          };
+        } catch {
+          // Not authenticated yet; the resume list resource reports the error when read
+          return { resources: [] };
+        }
+      },
+      complete: {
+        id: async (value) => {
+          const resumes = await currentClient().listResumes().catch(() => []);
+          return resumes.map((resume) => resume.id).filter((id) => id.startsWith(value));
+        },
+      },
+    }),
+    { description: "A resume with its full data", mimeType: "application/json" },
+    async (uri, { id }, extra) => jsonContents(uri, await session(extra).client.getResume(String(id)))
+  );
+
+  server.resource(
+    "resume-section",
+    new ResourceTemplate("rxresume://resume/{id}/section/{name}", {
+      list: undefined,
+      complete: {
+        name: (value) => ["basics", ...sectionNames, "custom"].filter((name) => name.startsWith(value)),
+      },
+    }),
+    {
+      description:
+        'One section of a resume: "basics", a section name such as "experience", "custom" for all custom sections, or "custom.<id>"',
+      mimeType: "application/json",
+    },
+    async (uri, { id, name }, extra) => {
+      const resume = await session(extra).client.getResume(String(id));
+      const section = String(name);
+      let data: unknown;
+      if (section === "basics") {
+        data = resume.data.basics;
+      } else if (section === "custom") {
+        data = resume.data.sections.custom;
+      } else if (section.startsWith("custom.")) {
+        data = resume.data.sections.custom[section.slice("custom.".length)];
+      } else if ((sectionNames as readonly string[]).includes(section)) {
+        data = resume.data.sections[section as SectionName];
+      }
+      if (data === undefined) {
+        throw new Error(`Section ${section} not found in resume ${id}`);
+      }
+      return jsonContents(uri, data);
+    }
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return server;
+}
@@ -0,0 +1,67 @@
+import { normalizeBaseUrl, type RxResumeApiClient } from "./api-client.js";
+
+// Everything one MCP session configures at runtime. The client carries the base URL,
+// API key and login cookies; the default resume is used by tools called without resume_id.
+export class SessionState {
+  defaultResumeId: string | null = null;
+
+  constructor(
+    public client: RxResumeApiClient,
+    // Name of the config file profile the client was set up from, if any
+    public profile: string | null = null
+  ) {}
+
+  // Authenticated clients of instances this session switched away from, by base URL,
+  // so switching back restores their credentials
+  private savedClients = new Map<string, RxResumeApiClient>();
+
+  // Make client the active one, keeping the current one for switching back
+  switchClient(client: RxResumeApiClient): void {
+    if (client === this.client) return;
+    if (client.getBaseUrl() !== this.client.getBaseUrl()) {
+      // Resume IDs of the previous instance mean nothing on the new one
+      this.defaultResumeId = null;
+    }
+    if (this.client.isAuthenticated()) {
+      this.savedClients.set(this.client.getBaseUrl(), this.client);
+    }
+    this.savedClients.delete(client.getBaseUrl());
+    this.client = client;
+  }
+
+  savedClient(baseUrl: string): RxResumeApiClient | undefined {
+    return this.savedClients.get(normalizeBaseUrl(baseUrl));
+  }
+
+  resolveResumeId(resumeId: string | undefined): string {
+    const id = resumeId || this.defaultResumeId;
+    if (!id) {
+      throw new Error("No resume_id given and no default resume set for this session (see set_default_resume)");
+    }
+    return id;
+  }
+}
+
+// The stdio transport serves a single client and has no session ID
+const STDIO_SESSION = "stdio";
+
+// Session state keyed by MCP session ID, so one client's credentials and base URL
+// never apply to another client's requests
+export class SessionStore {
+  private sessions = new Map<string, SessionState>();
+
+  // Created on the session's first request
+  get(sessionId: string | undefined, create: () => SessionState): SessionState {
+    const key = sessionId ?? STDIO_SESSION;
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = create();
+      this.sessions.set(key, session);
+    }
+    return session;
+  }
+
+  delete(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+}
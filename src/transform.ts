@@ -0,0 +1,107 @@
+import { itemLabel, type ItemRef } from "./diff.js";
+import type { ResumeData, ResumeSection } from "./types.js";
+
+// Whole-resume transforms used when deriving one resume from another
+// (e.g. a job-specific copy of a master resume). All return new data.
+
+type Section = ResumeSection<{ id: string; hidden: boolean }>;
+
+// Every item-bearing section, keyed by name or "custom.<id>" as used in the layout
+function itemSections(data: ResumeData): Array<[string, Section]> {
+  const { custom = {}, ...sections } = data.sections;
+  return [
+    ...(Object.entries(sections) as Array<[string, object]>).filter(
+      (entry): entry is [string, Section] => "items" in entry[1]
+    ),
+    ...Object.entries(custom).map(([id, section]): [string, Section] => [`custom.${id}`, section]),
+  ];
+}
+
+// Apply fn to the section stored under a key from itemSections (or "summary")
+function mapSection(data: ResumeData, key: string, fn: <T extends object>(section: T) => T): ResumeData {
+  if (key.startsWith("custom.")) {
+    const id = key.slice("custom.".length);
+    const custom = data.sections.custom ?? {};
+    return {
+      ...data,
+      sections: { ...data.sections, custom: { ...custom, [id]: fn(custom[id]) } },
+    };
+  }
+  const sections = data.sections as unknown as Record<string, object>;
+  return { ...data, sections: { ...data.sections, [key]: fn(sections[key]) } };
+}
+
+// Give every section item a fresh id so the copy shares no ids with its source
+export function regenerateItemIds(data: ResumeData, generateId: () => string): ResumeData {
+  return itemSections(data).reduce(
+    (result, [key]) =>
+      mapSection(result, key, (section) => ({
+        ...section,
+        items: (section as unknown as Section).items.map((item) => ({ ...item, id: generateId() })),
+      })),
+    data
+  );
+}
+
+// Hide sections by name ("experience", "summary") or "custom.<id>"
+export function hideSections(data: ResumeData, keys: string[]): ResumeData {
+  const known = new Set(["summary", ...itemSections(data).map(([key]) => key)]);
+  const unknown = keys.filter((key) => !known.has(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown section(s): ${unknown.join(", ")}`);
+  }
+  return keys.reduce((result, key) => mapSection(result, key, (section) => ({ ...section, visible: false })), data);
+}
+
+export interface DroppedItem extends ItemRef {
+  section: string;
+}
+
+// Remove every item the predicate matches, reporting what was removed
+export function dropItems(
+  data: ResumeData,
+  predicate: (item: Record<string, unknown>) => boolean
+): { data: ResumeData; dropped: DroppedItem[] } {
+  const dropped: DroppedItem[] = [];
+  const result = itemSections(data).reduce((current, [key, section]) => {
+    const removed = section.items.filter((item) => predicate(item));
+    if (removed.length === 0) return current;
+    dropped.push(...removed.map((item) => ({ section: key, id: item.id, label: itemLabel(item) })));
+    return mapSection(current, key, (target) => ({
+      ...target,
+      items: section.items.filter((item) => !removed.includes(item)),
+    }));
+  }, data);
+  return { data: result, dropped };
+}
+
+// True when one of the item's keywords equals one of the tags (case-insensitive)
+export function itemHasTag(item: Record<string, unknown>, tags: string[]): boolean {
+  const wanted = new Set(tags.map((tag) => tag.trim().toLowerCase()));
+  const keywords = Array.isArray(item.keywords) ? item.keywords : [];
+  return keywords.some((keyword) => typeof keyword === "string" && wanted.has(keyword.trim().toLowerCase()));
+}
+
+// True when any text in the item (including descriptions and keywords) contains one of the
+// terms as a whole word, case-insensitively ("java" does not match "javascript")
+export function itemMentions(item: Record<string, unknown>, terms: string[]): boolean {
+  const text = collectText(item).join("\n");
+  return terms
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .some((term) => {
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu").test(text);
+    });
+}
+
+function collectText(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectText);
+  if (typeof value === "object" && value !== null) {
+    return Object.entries(value)
+      .filter(([key]) => key !== "id")
+      .flatMap(([, entry]) => collectText(entry));
+  }
+  return [];
+}
@@ -50,6 +50,11 @@ export interface ResumeBasics {
   };
 }
 
+// Basics fields to change; url may be given partially
+export type BasicsUpdates = Partial<Omit<ResumeBasics, "url">> & {
+  url?: Partial<ResumeBasics["url"]>;
+};
+
 export interface ResumeSection<T = unknown> {
   name: string;
   columns: number;
@@ -59,167 +64,165 @@ export interface ResumeSection<T = unknown> {
   items: T[];
 }
 
-export interface ExperienceItem {
+// v5 summary section carries its content directly instead of items
+export interface SummarySection extends Omit<ResumeSection, "items"> {
+  content: string;
+}
+
+// v5 item types - Reactive Resume v5 renamed most item fields:
+// visible -> hidden, date -> period (for ranges), summary -> description,
+// url: { label, href } -> website: { label, url }
+export interface Website {
+  label: string;
+  url: string;
+}
+
+export interface SectionItemBase {
   id: string;
-  visible: boolean;
+  hidden: boolean;
+}
+
+export interface ExperienceItem extends SectionItemBase {
   company: string;
   position: string;
   location: string;
-  date: string;
-  summary: string;
-  url: {
-    label: string;
-    href: string;
-  };
+  period: string;
+  website: Website;
+  description: string;
 }
 
-export interface EducationItem {
-  id: string;
-  visible: boolean;
-  institution: string;
-  studyType: string;
+export interface EducationItem extends SectionItemBase {
+  school: string;
+  degree: string;
   area: string;
-  score: string;
-  date: string;
-  summary: string;
-  url: {
-    label: string;
-    href: string;
-  };
+  grade: string;
+  location: string;
+  period: string;
+  website: Website;
+  description: string;
 }
 
-export interface SkillItem {
-  id: string;
-  visible: boolean;
+export interface SkillItem extends SectionItemBase {
+  icon: string;
   name: string;
-  description: string;
+  proficiency: string;
   level: number;
   keywords: string[];
 }
 
-export interface ProjectItem {
-  id: string;
-  visible: boolean;
+export interface ProjectItem extends SectionItemBase {
   name: string;
+  period: string;
+  website: Website;
   description: string;
-  date: string;
-  summary: string;
-  keywords: string[];
-  url: {
-    label: string;
-    href: string;
-  };
 }
 
-export interface CertificationItem {
-  id: string;
-  visible: boolean;
-  name: string;
+export interface CertificationItem extends SectionItemBase {
+  title: string;
   issuer: string;
   date: string;
-  summary: string;
-  url: {
-    label: string;
-    href: string;
-  };
+  website: Website;
+  description: string;
 }
 
-export interface LanguageItem {
-  id: string;
-  visible: boolean;
-  name: string;
-  description: string;
+export interface LanguageItem extends SectionItemBase {
+  language: string;
+  fluency: string;
   level: number;
 }
 
-export interface AwardItem {
-  id: string;
-  visible: boolean;
+export interface AwardItem extends SectionItemBase {
   title: string;
   awarder: string;
   date: string;
-  summary: string;
-  url: {
-    label: string;
-    href: string;
-  };
+  website: Website;
+  description: string;
 }
 
-export interface PublicationItem {
-  id: string;
-  visible: boolean;
-  name: string;
+export interface PublicationItem extends SectionItemBase {
+  title: string;
   publisher: string;
   date: string;
-  summary: string;
-  url: {
-    label: string;
-    href: string;
-  };
+  website: Website;
+  description: string;
 }
 
-export interface VolunteerItem {
-  id: string;
-  visible: boolean;
+export interface VolunteerItem extends SectionItemBase {
   organization: string;
-  position: string;
   location: string;
-  date: string;
-  summary: string;
-  url: {
-    label: string;
-    href: string;
-  };
+  period: string;
+  website: Website;
+  description: string;
 }
 
-export interface InterestItem {
-  id: string;
-  visible: boolean;
+export interface InterestItem extends SectionItemBase {
+  icon: string;
   name: string;
   keywords: string[];
 }
 
-export interface ReferenceItem {
-  id: string;
-  visible: boolean;
+export interface ReferenceItem extends SectionItemBase {
   name: string;
+  position: string;
+  phone: string;
+  website: Website;
   description: string;
-  summary: string;
-  url: {
-    label: string;
-    href: string;
-  };
 }
 
-export interface ProfileItem {
-  id: string;
-  visible: boolean;
+export interface ProfileItem extends SectionItemBase {
+  icon: string;
   network: string;
   username: string;
-  icon: string;
-  url: {
-    label: string;
-    href: string;
-  };
+  website: Website;
 }
 
-export interface CustomSectionItem {
-  id: string;
-  visible: boolean;
+export interface CustomSectionItem extends SectionItemBase {
   name: string;
-  description: string;
-  date: string;
   location: string;
-  summary: string;
+  period: string;
+  website: Website;
+  description: string;
   keywords: string[];
-  url: {
-    label: string;
-    href: string;
-  };
 }
 
+// Maps each item-based section to its item type
+export interface SectionItemMap {
+  experience: ExperienceItem;
+  education: EducationItem;
+  skills: SkillItem;
+  projects: ProjectItem;
+  certifications: CertificationItem;
+  languages: LanguageItem;
+  awards: AwardItem;
+  publications: PublicationItem;
+  volunteer: VolunteerItem;
+  interests: InterestItem;
+  references: ReferenceItem;
+  profiles: ProfileItem;
+}
+
+export type ItemSectionName = keyof SectionItemMap;
+
+export type SectionItem<S extends ItemSectionName = ItemSectionName> = SectionItemMap[S];
+
+// Fields that may be written on an existing item (id is immutable)
+export type SectionItemUpdates<S extends ItemSectionName> = Partial<Omit<SectionItemMap[S], "id">>;
+
+// How to reorder the items of a section
+export type ItemSortKey = "period_desc" | "period_asc" | "name";
+
+export type ItemOrder =
+  | { type: "ids"; ids: string[] }
+  | { type: "move"; id: string; before?: string; after?: string }
+  | { type: "sort"; key: ItemSortKey };
+
+// How to reorder sections within metadata.layout
+export type LayoutOrder =
+  | { type: "ids"; page: number; column: number; ids: string[] }
+  | { type: "move"; id: string; before?: string; after?: string };
+
 export interface ResumeSections {
-  summary: ResumeSection<{ id: string; visible: boolean; content: string }>;
+  summary: SummarySection;
   experience: ResumeSection<ExperienceItem>;
   education: ResumeSection<EducationItem>;
   skills: ResumeSection<SkillItem>;
@@ -325,6 +328,13 @@ export type SectionName =
   | "references"
   | "profiles";
 
+// A write computed in dry-run mode, with changes relative to the current resume
+export interface ResumeChangePreview {
+  resumeId: string;
+  description: string;
+  changes: Array<{ path: string; before: unknown; after: unknown }>;
+}
+
 // v5 Types - Reactive Resume v5 uses different field names
 export interface ResumeListItemV5 {
   id: string;
@@ -346,6 +356,8 @@ export interface ResumeV5 {
   isPublic: boolean;
   isLocked: boolean;
   hasPassword: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 export interface CreateResumeDtoV5 {
@@ -0,0 +1,101 @@
+import { inflateRawSync } from "node:zlib";
+
+// Minimal ZIP reader for data export archives: reads the central directory and
+// extracts stored or deflated entries. ZIP64, encryption and spanned archives are
+// not supported.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Data exports are a few megabytes; anything far larger is likely a zip bomb
+const DEFAULT_MAX_TOTAL_SIZE = 50 * 1024 * 1024;
+
+export interface ZipEntry {
+  // Path inside the archive, with "/" separators
+  name: string;
+  data: Buffer;
+}
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const earliest = Math.max(0, zip.length - 22 - 0xffff);
+  for (let offset = zip.length - 22; offset >= earliest; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("Not a ZIP archive (no end of central directory record)");
+}
+
+export interface ReadZipOptions {
+  // Limit on the combined uncompressed size of the extracted entries, in bytes
+  maxTotalSize?: number;
+}
+
+// Extract the entries whose names the filter accepts (all files if omitted)
+export function readZip(
+  zip: Buffer,
+  filter: (name: string) => boolean = () => true,
+  options: ReadZipOptions = {}
+): ZipEntry[] {
+  const maxTotalSize = options.maxTotalSize ?? DEFAULT_MAX_TOTAL_SIZE;
+  if (zip.length < 22) {
+    throw new Error("Not a ZIP archive (file too short)");
+  }
+  const end = findEndOfCentralDirectory(zip);
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+  for (let index = 0; index < count; index++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Corrupt ZIP archive (bad central directory entry)");
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const uncompressedSize = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const headerOffset = zip.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older archivers use CP437, which matches for ASCII names
+    const name = zip.toString(flags & 0x800 ? "utf8" : "latin1", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || !filter(name)) continue;
+    if (flags & 0x1) {
+      throw new Error(`Cannot read encrypted ZIP entry ${name}`);
+    }
+    if (zip.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP archive (bad local header for ${name})`);
+    }
+    const dataStart = headerOffset + 30 + zip.readUInt16LE(headerOffset + 26) + zip.readUInt16LE(headerOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+
+    // The declared size can lie, so inflating is capped as well
+    const remaining = maxTotalSize - totalSize;
+    const tooLarge = () => new Error(`ZIP archive is too large: its contents exceed ${maxTotalSize} bytes uncompressed`);
+    if (uncompressedSize > remaining) throw tooLarge();
+    let data: Buffer;
+    if (method === 0) {
+      data = Buffer.from(raw);
+    } else if (method === 8) {
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(remaining, 1) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw tooLarge();
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ZIP entry ${name}`);
+    }
+    if (data.length > remaining) throw tooLarge();
+    totalSize += data.length;
+    entries.push({ name, data });
+  }
+  return entries;
+}
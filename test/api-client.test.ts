@@ -0,0 +1,279 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { ApiRequestError, ResumeConflictError, RxResumeApiClient } from "../src/api-client.js";
+import type { ResumeHistory } from "../src/history.js";
+import type { Resume } from "../src/types.js";
+import { jsonResponse, resumeApi, sampleData, stubFetch, type FetchHandler } from "./fixtures.js";
+
+let restore: () => void = () => undefined;
+afterEach(() => restore());
+
+function client(): { client: RxResumeApiClient; calls: string[] } {
+  const stub = stubFetch(resumeApi());
+  restore = stub.restore;
+  const api = new RxResumeApiClient("http://rx.test");
+  api.setApiKey("key");
+  return { client: api, calls: stub.calls };
+}
+
+describe("section items", () => {
+  it("rejects updating an unknown built-in item without writing", async () => {
+    const { client: api, calls } = client();
+    await assert.rejects(
+      api.updateSectionItem("r1", "experience", "nope", { company: "X" }),
+      /Item nope not found in experience section/
+    );
+    assert.ok(!calls.some((call) => call.startsWith("PUT")));
+  });
+
+  it("rejects removing an unknown built-in item without writing", async () => {
+    const { client: api, calls } = client();
+    await assert.rejects(api.removeSectionItem("r1", "skills", "nope"), /Item nope not found/);
+    assert.ok(!calls.some((call) => call.startsWith("PUT")));
+  });
+
+  it("updates an existing item", async () => {
+    const { client: api } = client();
+    const resume = await api.updateSectionItem("r1", "experience", "e1", { company: "Globex" });
+    assert.equal(resume.data.sections.experience.items[0].company, "Globex");
+  });
+});
+
+describe("read-modify-write", () => {
+  it("sends one GET and one PUT per mutation", async () => {
+    const { client: api, calls } = client();
+    await api.updateBasics("r1", { headline: "Architect" });
+    assert.deepEqual(calls, ["GET /api/openapi/resume/r1", "PUT /api/openapi/resume/r1"]);
+  });
+
+  it("reads the resume back after the PUT when asked", async () => {
+    const { client: api, calls } = client();
+    api.setRefetchAfterWrite(true);
+    const resume = await api.updateBasics("r1", { headline: "Architect" });
+    assert.equal(resume.data.basics.headline, "Architect");
+    assert.deepEqual(calls, ["GET /api/openapi/resume/r1", "PUT /api/openapi/resume/r1", "GET /api/openapi/resume/r1"]);
+  });
+});
+
+describe("metadata", () => {
+  it("keeps stored page settings that are not given", async () => {
+    const { client: api } = client();
+    const resume = await api.updatePage("r1", { margin: 10, format: undefined });
+    assert.deepEqual(resume.data.metadata.page, { margin: 10, format: "a4", options: { breakLine: true, pageNumbers: true } });
+  });
+
+  it("rejects empty page and theme updates without writing", async () => {
+    const { client: api, calls } = client();
+    await assert.rejects(api.updatePage("r1", {}), /No page settings given/);
+    await assert.rejects(api.updateTheme("r1", { primary: undefined }), /No theme colours given/);
+    assert.deepEqual(calls, []);
+  });
+});
+
+describe("credentials", () => {
+  it("copies credentials between clients unless they are pinned", () => {
+    const source = new RxResumeApiClient("http://a.test");
+    source.setApiKey("key");
+    const target = new RxResumeApiClient("http://b.test");
+    target.copyCredentialsFrom(source);
+    assert.equal(target.getApiKey(), "key");
+
+    source.pinCredentials();
+    assert.throws(() => new RxResumeApiClient("http://c.test").copyCredentialsFrom(source), /may only be used on that instance/);
+  });
+});
+
+describe("conflict detection", () => {
+  // Simulates an edit made in the web UI
+  async function editElsewhere(change: (data: ReturnType<typeof sampleData>) => void): Promise<void> {
+    const data = sampleData();
+    change(data);
+    await fetch("http://rx.test/api/openapi/resume/r1", { method: "PUT", body: JSON.stringify({ data }) });
+  }
+
+  it("rejects a write to fields changed since the last read", async () => {
+    const { client: api } = client();
+    await api.getResume("r1");
+    await editElsewhere((data) => (data.basics.headline = "Manager"));
+    await assert.rejects(api.updateBasics("r1", { headline: "Architect" }), ResumeConflictError);
+  });
+
+  it("allows a write to other fields", async () => {
+    const { client: api } = client();
+    await api.getResume("r1");
+    await editElsewhere((data) => (data.basics.headline = "Manager"));
+    const resume = await api.updateBasics("r1", { location: "Paris" });
+    assert.equal(resume.data.basics.headline, "Manager");
+    assert.equal(resume.data.basics.location, "Paris");
+  });
+
+  it("checks a write against the version this client last wrote and sends no PUT on conflict", async () => {
+    const { client: api, calls } = client();
+    await api.updateBasics("r1", { headline: "Architect" });
+    await editElsewhere((data) => (data.basics.headline = "Manager"));
+    calls.length = 0;
+    const error = await api.updateBasics("r1", { headline: "Director" }).catch((error: unknown) => error);
+    assert.ok(error instanceof ResumeConflictError);
+    assert.deepEqual(error.fields, ["basics.headline"]);
+    assert.deepEqual(calls, ["GET /api/openapi/resume/r1"]);
+  });
+
+  it("reports the conflict in a dry run", async () => {
+    const { client: api } = client();
+    await api.getResume("r1");
+    await editElsewhere((data) => (data.basics.headline = "Manager"));
+    await assert.rejects(api.preview(() => api.updateBasics("r1", { headline: "Architect" })), ResumeConflictError);
+  });
+
+  it("accepts the write once the resume is read again", async () => {
+    const { client: api } = client();
+    await api.getResume("r1");
+    await editElsewhere((data) => (data.basics.headline = "Manager"));
+    await assert.rejects(api.updateBasics("r1", { headline: "Architect" }), ResumeConflictError);
+    await api.getResume("r1");
+    const resume = await api.updateBasics("r1", { headline: "Architect" });
+    assert.equal(resume.data.basics.headline, "Architect");
+  });
+
+  it("does not check the first write to a resume that was never read", async () => {
+    const { client: api } = client();
+    await editElsewhere((data) => (data.basics.headline = "Manager"));
+    const resume = await api.updateBasics("r1", { headline: "Architect" });
+    assert.equal(resume.data.basics.headline, "Architect");
+  });
+});
+
+describe("history", () => {
+  it("reports a failed snapshot as a warning without failing the saved write", async () => {
+    const { client: api, calls } = client();
+    api.setHistory({
+      record: async () => {
+        throw new Error("disk full");
+      },
+    } as unknown as ResumeHistory);
+    let resume: Resume | undefined;
+    const warnings = await api.collectWarnings(async () => {
+      resume = await api.updateBasics("r1", { headline: "Architect" });
+    });
+    assert.equal(resume!.data.basics.headline, "Architect");
+    assert.ok(calls.includes("PUT /api/openapi/resume/r1"));
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /could not be recorded in history.*disk full/);
+  });
+});
+
+describe("request retries", () => {
+  // Answers each request with the next response in line, repeating the last one
+  function retryClient(...responses: Array<() => Response | Promise<Response>>) {
+    let index = 0;
+    const handler: FetchHandler = () => responses[Math.min(index++, responses.length - 1)]();
+    const stub = stubFetch(handler);
+    restore = stub.restore;
+    const api = new RxResumeApiClient("http://rx.test");
+    api.setApiKey("key");
+    api.setRequestPolicy({ baseDelayMs: 1, maxDelayMs: 1, timeoutMs: 50 });
+    return { client: api, calls: stub.calls };
+  }
+  const status = (code: number, headers: Record<string, string> = {}) => () =>
+    jsonResponse({ message: `status ${code}` }, code, headers);
+  const ok = (value: unknown) => () => jsonResponse(value);
+  const networkError = () => Promise.reject(new TypeError("fetch failed", { cause: { code: "ECONNRESET" } }));
+  const created = ok("r2");
+  const createDto = { title: "New", slug: "new" };
+
+  it("retries a GET after 503 and network errors", async () => {
+    const { client: api, calls } = retryClient(status(503), networkError, ok([]));
+    assert.deepEqual(await api.listResumes(), []);
+    assert.equal(calls.length, 3);
+  });
+
+  it("gives up after maxRetries and reports the attempts", async () => {
+    const { client: api, calls } = retryClient(status(502));
+    api.setRequestPolicy({ maxRetries: 2 });
+    const error = await api.listResumes().catch((error: unknown) => error);
+    assert.ok(error instanceof ApiRequestError);
+    assert.equal(error.status, 502);
+    assert.equal(error.attempts, 3);
+    assert.equal(calls.length, 3);
+  });
+
+  it("does not retry a POST after 502 or a network error", async () => {
+    for (const failure of [status(502), networkError]) {
+      const { client: api, calls } = retryClient(failure, created);
+      await assert.rejects(api.createResume(createDto), /API request failed/);
+      assert.deepEqual(calls, ["POST /api/openapi/resume/create"]);
+      restore();
+    }
+  });
+
+  it("retries a POST after 429", async () => {
+    const { client: api, calls } = retryClient(status(429, { "retry-after": "0" }), created, ok({ id: "r2", name: "New" }));
+    const resume = await api.createResume(createDto);
+    assert.equal(resume.id, "r2");
+    assert.equal(resume.title, "New");
+    assert.deepEqual(calls, [
+      "POST /api/openapi/resume/create",
+      "POST /api/openapi/resume/create",
+      "GET /api/openapi/resume/r2",
+    ]);
+  });
+
+  it("does not retry other client errors", async () => {
+    const { client: api, calls } = retryClient(status(404), ok([]));
+    await assert.rejects(api.listResumes(), (error: unknown) => error instanceof ApiRequestError && error.status === 404);
+    assert.equal(calls.length, 1);
+  });
+
+  it("does not wait for a Retry-After beyond the limit", async () => {
+    const { client: api, calls } = retryClient(status(503, { "retry-after": "3600" }), ok([]));
+    await assert.rejects(api.listResumes(), /503/);
+    assert.equal(calls.length, 1);
+  });
+
+  it("retries a GET that timed out", async () => {
+    // Holds the event loop open the way a pending socket would; the client's timer is unref'd
+    const hang: FetchHandler = (_url, init) =>
+      new Promise((_, reject) => {
+        const pending = setTimeout(() => undefined, 10_000);
+        init.signal!.addEventListener("abort", () => {
+          clearTimeout(pending);
+          reject(init.signal!.reason);
+        });
+      });
+    const stub = stubFetch(hang);
+    restore = stub.restore;
+    const api = new RxResumeApiClient("http://rx.test");
+    api.setRequestPolicy({ baseDelayMs: 1, maxDelayMs: 1, timeoutMs: 20, maxRetries: 1 });
+    await assert.rejects(api.listResumes(), /Request timed out after 20 ms \(after 2 attempts\)/);
+    assert.equal(stub.calls.length, 2);
+  });
+
+  it("stops retrying when the retry budget is spent", async () => {
+    const { client: api, calls } = retryClient(status(503));
+    api.setRequestPolicy({ retryBudget: 2 });
+    await assert.rejects(api.listResumes(), /503/);
+    assert.equal(calls.length, 3);
+    await assert.rejects(api.listResumes(), /503/);
+    assert.equal(calls.length, 4);
+  });
+});
+
+describe("toSectionItemUpdates", () => {
+  it("maps legacy field names", () => {
+    assert.deepEqual(RxResumeApiClient.toSectionItemUpdates("experience", { visible: false, url: "https://a.example" }), {
+      hidden: true,
+      website: { label: "", url: "https://a.example" },
+    });
+  });
+
+  it("reports visible and hidden together as a conflict", () => {
+    assert.throws(
+      () => RxResumeApiClient.toSectionItemUpdates("skills", { visible: true, hidden: false }),
+      /Conflicting field\(s\) for skills items: visible\/hidden/
+    );
+  });
+
+  it("rejects unknown fields", () => {
+    assert.throws(() => RxResumeApiClient.toSectionItemUpdates("skills", { colour: "red" }), /Unknown field\(s\).*colour/);
+  });
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CssSyntaxError, sanitizeCss } from "../src/css.js";
+
+describe("sanitizeCss", () => {
+  it("strips @import and remote url() but keeps local references", () => {
+    const result = sanitizeCss(
+      '@import "https://evil.example/a.css";\n.a { background: url(https://evil.example/x.png); }\n.b { background: url(data:image/png;base64,AAAA) url("#frag") url(img/local.png); }'
+    );
+    assert.deepEqual(result.removed, ['@import "https://evil.example/a.css";', "url(https://evil.example/x.png)"]);
+    assert.match(result.css, /\.a \{ background: none; \}/);
+    assert.match(result.css, /url\(data:image\/png;base64,AAAA\) url\("#frag"\) url\(img\/local\.png\)/);
+  });
+
+  it("strips remote url() hidden behind escapes and protocol-relative URLs", () => {
+    const result = sanitizeCss(".a { background: u\\72l(//evil.example/x.png); }");
+    assert.equal(result.removed.length, 1);
+    assert.equal(result.css, ".a { background: none; }");
+  });
+
+  it("strips image-set() with a remote string argument", () => {
+    const result = sanitizeCss('.a { background: image-set("https://evil.example/x.png" 1x, "local.png" 2x); }');
+    assert.deepEqual(result.removed, ['image-set("https://evil.example/x.png" 1x, "local.png" 2x)']);
+    assert.equal(result.css, ".a { background: none; }");
+  });
+
+  it("strips -webkit-image-set() and src() with remote strings regardless of case", () => {
+    const result = sanitizeCss(
+      ".a { background: -WEBKIT-image-set('https://evil.example/x.png' 1x); mask: SRC(\"//evil.example/m.svg\"); }"
+    );
+    assert.equal(result.removed.length, 2);
+    assert.equal(result.css, ".a { background: none; mask: none; }");
+  });
+
+  it("keeps image-set() and src() with local strings", () => {
+    const css = '.a { background: image-set("a.png" 1x, "data:image/png;base64,AAAA" 2x); mask: src("#m"); }';
+    assert.deepEqual(sanitizeCss(css), { css, removed: [] });
+  });
+
+  it("rejects malformed input", () => {
+    assert.throws(() => sanitizeCss(".a { color: red;"), CssSyntaxError);
+    assert.throws(() => sanitizeCss('.a { content: "open; }'), /unterminated string/);
+    assert.throws(() => sanitizeCss(".a { background: image-set(\"x.png\" 1x; }"), CssSyntaxError);
+  });
+});
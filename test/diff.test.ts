@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffResumeData, diffValues, formatResumeDiff, pathsOverlap } from "../src/diff.js";
+import { sampleData } from "./fixtures.js";
+
+describe("diffValues", () => {
+  it("reports leaf changes with validation-style paths", () => {
+    assert.deepEqual(diffValues({ a: { b: 1, c: [1, 2] } }, { a: { b: 2, c: [1, 3] } }), [
+      { path: "a.b", before: 1, after: 2 },
+      { path: "a.c[1]", before: 2, after: 3 },
+    ]);
+  });
+
+  it("matches item arrays by id", () => {
+    const before = [{ id: "x", v: 1 }, { id: "y", v: 1 }];
+    const after = [{ id: "x", v: 2 }, { id: "y", v: 1 }, { id: "z", v: 1 }];
+    assert.deepEqual(diffValues(before, after, "items"), [
+      { path: "items[0].v", before: 1, after: 2 },
+      { path: "items[2]", before: undefined, after: { id: "z", v: 1 } },
+    ]);
+  });
+
+  it("reports a reorder as a change of the whole array", () => {
+    const before = [{ id: "x" }, { id: "y" }];
+    const after = [{ id: "y" }, { id: "x" }];
+    assert.deepEqual(diffValues(before, after, "items"), [{ path: "items", before, after }]);
+  });
+});
+
+describe("pathsOverlap", () => {
+  it("treats a path and its descendants as overlapping", () => {
+    assert.ok(pathsOverlap("basics", "basics.name"));
+    assert.ok(pathsOverlap("items[0].v", "items"));
+    assert.ok(!pathsOverlap("basics.name", "basics.nameSuffix"));
+    assert.ok(!pathsOverlap("items[1]", "items[10]"));
+  });
+});
+
+describe("diffResumeData", () => {
+  it("summarizes changes per section", () => {
+    const before = sampleData();
+    const after = sampleData();
+    after.basics.headline = "Manager";
+    after.sections.experience.items[0].company = "Globex";
+    after.sections.skills.items = [];
+
+    const diff = diffResumeData(before, after);
+    assert.deepEqual(diff.basics, [{ path: "headline", before: "Engineer", after: "Manager" }]);
+    assert.deepEqual(Object.keys(diff.sections), ["experience", "skills"]);
+    assert.deepEqual(diff.sections.skills.removed, [{ id: "s1", label: "TypeScript" }]);
+    assert.match(formatResumeDiff(diff), /~ Developer at Globex: company/);
+  });
+
+  it("reports identical resumes as such", () => {
+    assert.equal(formatResumeDiff(diffResumeData(sampleData(), sampleData())), "No differences.");
+  });
+});
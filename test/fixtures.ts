@@ -0,0 +1,193 @@
+import { deflateRawSync } from "node:zlib";
+import type { ResumeData } from "../src/types.js";
+
+// Shared test data: a small but valid v5 resume
+
+function section(id: string, items: unknown[] = []) {
+  return { name: id, columns: 1, separateLinks: true, visible: true, id, items };
+}
+
+export function sampleData(): ResumeData {
+  return {
+    basics: {
+      name: "Jane Doe",
+      headline: "Engineer",
+      email: "jane@example.com",
+      phone: "",
+      location: "Berlin",
+      url: { label: "", href: "" },
+      customFields: [],
+      picture: {
+        url: "",
+        size: 64,
+        aspectRatio: 1,
+        borderRadius: 0,
+        effects: { hidden: false, border: false, grayscale: false },
+      },
+    },
+    sections: {
+      summary: {
+        name: "Summary",
+        columns: 1,
+        separateLinks: true,
+        visible: true,
+        id: "summary",
+        content: "<p>Hi <strong>there</strong></p>",
+      },
+      experience: section("experience", [
+        {
+          id: "e1",
+          hidden: false,
+          company: "Acme",
+          position: "Developer",
+          location: "Remote",
+          period: "Jan 2020 - Present",
+          website: { label: "", url: "https://acme.example" },
+          description: "<ul><li><p>Built things</p></li><li><p>Shipped 3x faster</p></li></ul>",
+        },
+      ]),
+      education: section("education", [
+        {
+          id: "ed1",
+          hidden: false,
+          school: "MIT",
+          degree: "BSc",
+          area: "CS",
+          grade: "",
+          location: "",
+          period: "2012 - 2016",
+          website: { label: "", url: "" },
+          description: "",
+        },
+      ]),
+      skills: section("skills", [
+        { id: "s1", hidden: false, icon: "", name: "TypeScript", proficiency: "Expert", level: 5, keywords: ["Node"] },
+      ]),
+      projects: section("projects"),
+      certifications: section("certifications"),
+      languages: section("languages"),
+      awards: section("awards"),
+      publications: section("publications"),
+      volunteer: section("volunteer"),
+      interests: section("interests"),
+      references: section("references"),
+      profiles: section("profiles", [
+        {
+          id: "p1",
+          hidden: false,
+          icon: "github",
+          network: "GitHub",
+          username: "jane",
+          website: { label: "", url: "https://github.com/jane" },
+        },
+      ]),
+      custom: {},
+    },
+    metadata: {
+      template: "rhyhorn",
+      layout: [
+        [
+          ["summary", "experience", "education", "projects"],
+          ["profiles", "skills", "languages", "certifications", "awards", "publications", "volunteer", "interests", "references"],
+        ],
+      ],
+      css: { value: "", visible: false },
+      page: { margin: 18, format: "a4", options: { breakLine: true, pageNumbers: true } },
+      theme: { background: "#ffffff", text: "#000000", primary: "#dc2626" },
+      typography: {
+        font: { family: "IBM Plex Serif", subset: "latin", variants: ["regular"], size: 14 },
+        lineHeight: 1.5,
+        hideIcons: false,
+        underlineLinks: true,
+      },
+      notes: "",
+    },
+  } as unknown as ResumeData;
+}
+
+export type FetchHandler = (url: string, init: RequestInit) => Response | Promise<Response>;
+
+// Replace global fetch for one test; returns the recorded "METHOD path" calls
+export function stubFetch(handler: FetchHandler): { calls: string[]; restore: () => void } {
+  const original = globalThis.fetch;
+  const calls: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = String(input);
+    calls.push(`${init.method ?? "GET"} ${new URL(url).pathname}`);
+    return handler(url, init);
+  }) as typeof fetch;
+  return { calls, restore: () => (globalThis.fetch = original) };
+}
+
+export function jsonResponse(value: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(value), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+// Serves resume r1 with the given data and accepts PUTs to it
+export function resumeApi(data: ResumeData = sampleData()): FetchHandler {
+  let updatedAt = "2026-01-01T00:00:00.000Z";
+  return (_url, init) => {
+    if (init.method === "PUT") {
+      const body = JSON.parse(String(init.body)) as { data?: ResumeData };
+      if (body.data) data = body.data;
+      updatedAt = new Date().toISOString();
+      return jsonResponse({});
+    }
+    return jsonResponse({
+      id: "r1",
+      name: "Resume",
+      slug: "resume",
+      tags: [],
+      data,
+      isPublic: false,
+      isLocked: false,
+      hasPassword: false,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt,
+    });
+  };
+}
+
+// Build a ZIP archive with deflated entries (CRCs are left as zero; readZip does not check them).
+// declaredSize overrides the uncompressed size written to the central directory.
+export function buildZip(files: Array<{ name: string; content: string | Buffer; declaredSize?: number }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const content = Buffer.from(file.content);
+    const data = deflateRawSync(content);
+    const name = Buffer.from(file.name, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(file.declaredSize ?? content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { chmod, mkdtemp, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { ResumeHistory } from "../src/history.js";
+import { sampleData } from "./fixtures.js";
+
+describe("ResumeHistory", () => {
+  it("keeps the newest snapshots up to the limit", async () => {
+    const history = new ResumeHistory({ limit: 2 });
+    for (const description of ["one", "two", "three"]) {
+      await history.record("r1", sampleData(), description);
+    }
+    assert.deepEqual(
+      (await history.list("r1")).map((revision) => revision.description),
+      ["three", "two"]
+    );
+    assert.deepEqual(await history.list("r2"), []);
+  });
+
+  it("persists snapshots readable only by the owner", async () => {
+    const directory = join(await mkdtemp(join(tmpdir(), "rx-history-")), "instance");
+    try {
+      const revision = await new ResumeHistory({ directory }).record("../r1", sampleData(), "edit");
+      assert.deepEqual(await readdir(directory), ["___r1.json"]);
+      assert.equal((await stat(directory)).mode & 0o777, 0o700);
+      assert.equal((await stat(join(directory, "___r1.json"))).mode & 0o777, 0o600);
+
+      const reloaded = await new ResumeHistory({ directory }).get("../r1", revision.id);
+      assert.equal(reloaded?.description, "edit");
+    } finally {
+      await rm(join(directory, ".."), { recursive: true, force: true });
+    }
+  });
+
+  it("tightens the permissions of existing history files", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "rx-history-"));
+    try {
+      await chmod(directory, 0o755);
+      await writeFile(join(directory, "r1.json"), "[]", { mode: 0o644 });
+      await new ResumeHistory({ directory }).record("r1", sampleData(), "edit");
+      assert.deepEqual(await readdir(directory), ["r1.json"]);
+      assert.equal((await stat(directory)).mode & 0o777, 0o700);
+      assert.equal((await stat(join(directory, "r1.json"))).mode & 0o777, 0o600);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
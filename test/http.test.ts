@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, it } from "node:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startHttpServer, type HttpServerOptions } from "../src/http.js";
+
+let server: Server | null = null;
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+  server = null;
+});
+
+async function start(options: Partial<HttpServerOptions> = {}): Promise<string> {
+  server = await startHttpServer(() => new McpServer({ name: "test", version: "1.0.0" }), {
+    host: "127.0.0.1",
+    port: 0,
+    path: "/mcp",
+    ...options,
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+}
+
+const initialize = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+});
+
+function post(url: string, body: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body,
+  });
+}
+
+describe("startHttpServer", () => {
+  it("rejects requests without the bearer token", async () => {
+    const url = await start({ token: "secret-token" });
+    // Missing, wrong (same length and shorter) and without the Bearer scheme
+    for (const authorization of [undefined, "Bearer secret-tokeN", "Bearer secret", "secret-token"]) {
+      const response = await post(url, initialize, authorization ? { Authorization: authorization } : {});
+      assert.equal(response.status, 401);
+      assert.equal(response.headers.get("www-authenticate"), "Bearer");
+      await response.body?.cancel();
+    }
+
+    const response = await post(url, initialize, { Authorization: "Bearer secret-token" });
+    assert.equal(response.status, 200);
+    assert.ok(response.headers.get("mcp-session-id"));
+    await response.body?.cancel();
+  });
+
+  it("rejects request bodies over the limit", async () => {
+    const url = await start({ maxBodyBytes: 1024 });
+    const response = await post(url, JSON.stringify({ padding: "x".repeat(2048) }));
+    assert.equal(response.status, 413);
+    assert.match(await response.text(), /exceeds 1024 bytes/);
+  });
+
+  it("closes sessions that stay idle", async () => {
+    const closed: string[] = [];
+    const url = await start({ idleTimeoutMs: 50, onSessionClosed: (id) => closed.push(id) });
+    const response = await post(url, initialize);
+    const sessionId = response.headers.get("mcp-session-id")!;
+    await response.body?.cancel();
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.deepEqual(closed, [sessionId]);
+    const expired = await post(url, JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }), {
+      "mcp-session-id": sessionId,
+    });
+    assert.equal(expired.status, 404);
+    await expired.body?.cancel();
+  });
+});
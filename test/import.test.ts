@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RxResumeApiClient } from "../src/api-client.js";
+import { applyResumeImport, type ResumeImport } from "../src/import.js";
+import { sampleData } from "./fixtures.js";
+
+function imported(): ResumeImport {
+  return {
+    basics: { name: "Janet Doe", phone: "+49 123" },
+    picture: null,
+    summary: "<p>Imported</p>",
+    sections: {
+      skills: [
+        RxResumeApiClient.buildSectionItem("skills", "new1", { name: "TypeScript" }),
+        RxResumeApiClient.buildSectionItem("skills", "new2", { name: "Go" }),
+      ],
+    },
+    unmapped: [],
+  };
+}
+
+describe("applyResumeImport", () => {
+  it("merge skips existing items and fills only empty basics", () => {
+    const { data, skipped } = applyResumeImport(sampleData(), imported(), "merge");
+    assert.deepEqual(
+      data.sections.skills.items.map((item) => item.name),
+      ["TypeScript", "Go"]
+    );
+    assert.deepEqual(skipped, [{ section: "skills", label: "TypeScript" }]);
+    assert.equal(data.basics.name, "Jane Doe");
+    assert.equal(data.basics.phone, "+49 123");
+    assert.equal(data.sections.summary.content, "<p>Hi <strong>there</strong></p>");
+  });
+
+  it("merging the same import twice changes nothing", () => {
+    const once = applyResumeImport(sampleData(), imported(), "merge").data;
+    const twice = applyResumeImport(once, imported(), "merge").data;
+    assert.deepEqual(twice, once);
+  });
+
+  it("append keeps duplicates and replace overwrites", () => {
+    const appended = applyResumeImport(sampleData(), imported(), "append").data;
+    assert.equal(appended.sections.skills.items.length, 3);
+    assert.equal(appended.sections.summary.content, "<p>Hi <strong>there</strong></p><p>Imported</p>");
+
+    const replaced = applyResumeImport(sampleData(), imported(), "replace").data;
+    assert.deepEqual(
+      replaced.sections.skills.items.map((item) => item.id),
+      ["new1", "new2"]
+    );
+    assert.equal(replaced.basics.name, "Janet Doe");
+    assert.equal(replaced.sections.experience.items.length, 1);
+  });
+});
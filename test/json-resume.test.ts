@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyResumeImport } from "../src/import.js";
+import { fromJsonResume, toJsonResume, type JsonResume } from "../src/json-resume.js";
+import type { ResumeData } from "../src/types.js";
+import { sampleData } from "./fixtures.js";
+
+function counter(): () => string {
+  let next = 0;
+  return () => `id${++next}`;
+}
+
+// Every section holds an item with every field filled in
+function populatedData(): ResumeData {
+  const data = sampleData();
+  const website = (url: string) => ({ label: "Link", url });
+  const { sections } = data;
+  data.basics.url = { label: "Site", href: "https://jane.example" };
+  data.basics.picture.url = "https://jane.example/me.png";
+  data.basics.customFields = [{ id: "c1", icon: "pronoun", name: "Pronouns", value: "she/her" }];
+  sections.education.items[0] = {
+    ...sections.education.items[0],
+    grade: "3.9",
+    location: "Cambridge",
+    website: website("https://mit.example"),
+    description: "<ul><li><p>Algorithms</p></li></ul>",
+  };
+  sections.projects.items = [
+    { id: "p1", hidden: false, name: "Compiler", period: "2021", website: website("https://compiler.example"), description: "<p>Toy compiler</p><ul><li><p>Fast</p></li></ul>" },
+  ];
+  sections.certifications.items = [
+    { id: "c1", hidden: false, title: "AWS", issuer: "Amazon", date: "March 2023", website: website("https://aws.example"), description: "<p>Associate level</p>" },
+  ];
+  sections.languages.items = [{ id: "l1", hidden: false, language: "German", fluency: "Native", level: 5 }];
+  sections.awards.items = [
+    { id: "a1", hidden: false, title: "Prize", awarder: "ACM", date: "2019", website: website("https://acm.example"), description: "<p>Best paper</p>" },
+  ];
+  sections.publications.items = [
+    { id: "pub1", hidden: false, title: "Paper", publisher: "ACM", date: "May 2018", website: website("https://paper.example"), description: "<p>About types</p>" },
+  ];
+  sections.volunteer.items = [
+    { id: "v1", hidden: false, organization: "Red Cross", location: "Berlin", period: "2015 - 2016", website: website("https://redcross.example"), description: "<p>Helped</p>" },
+  ];
+  sections.interests.items = [{ id: "i1", hidden: false, icon: "", name: "Chess", keywords: ["Openings"] }];
+  sections.references.items = [
+    { id: "r1", hidden: false, name: "Bob", position: "CTO", phone: "+49 30 1234", website: website("https://bob.example"), description: "<p>Great colleague</p>" },
+  ];
+  return data;
+}
+
+describe("toJsonResume", () => {
+  it("round-trips a fully populated resume and reports every field it drops", () => {
+    const { document, skipped } = toJsonResume(populatedData());
+    assert.deepEqual(skipped, [
+      'basics custom field "Pronouns"',
+      'volunteer "Red Cross" location',
+      'education "MIT" location',
+      'award "Prize" website',
+      'certification "AWS" description',
+      'reference "Bob" position',
+      'reference "Bob" phone',
+      'reference "Bob" website',
+    ]);
+
+    const imported = fromJsonResume(document, counter());
+    assert.deepEqual(imported.unmapped, []);
+    const reimported = applyResumeImport(sampleData(), imported, "replace").data;
+    assert.deepEqual(toJsonResume(reimported).document, document);
+  });
+
+  it("leaves out and reports URLs and email addresses the schema would reject", () => {
+    const data = sampleData();
+    data.basics.email = "jane at example";
+    data.basics.url.href = "jane.example";
+    data.sections.profiles.items[0].website.url = "github.com/jane";
+
+    const { document, skipped } = toJsonResume(data);
+    const basics = document.basics as NonNullable<JsonResume["basics"]>;
+    assert.equal(basics.email, undefined);
+    assert.equal(basics.url, undefined);
+    assert.equal(basics.profiles?.[0].url, undefined);
+    assert.deepEqual(skipped, [
+      'basics email "jane at example" (not a valid email address)',
+      'basics url "jane.example" (not a valid URL)',
+      'profile "GitHub" url "github.com/jane" (not a valid URL)',
+    ]);
+  });
+
+  it("converts periods to ISO dates and open-ended periods to a missing endDate", () => {
+    const { document, skipped } = toJsonResume(sampleData());
+    assert.equal(document.work?.[0].startDate, "2020-01");
+    assert.equal(document.work?.[0].endDate, undefined);
+    assert.equal(document.education?.[0].startDate, "2012");
+    assert.equal(document.education?.[0].endDate, "2016");
+    assert.deepEqual(document.work?.[0].highlights, ["Built things", "Shipped 3x faster"]);
+    assert.deepEqual(skipped, []);
+  });
+
+  it("reports periods and dates it cannot convert", () => {
+    const data = sampleData();
+    data.sections.experience.items[0].period = "Summer 2019";
+    data.sections.education.items[0].period = "2012 - Fall 2016";
+    data.sections.awards.items = [
+      { id: "a1", hidden: false, title: "Prize", awarder: "ACM", date: "Spring 2018", description: "", website: { label: "", url: "" } },
+    ];
+
+    const { document, skipped } = toJsonResume(data);
+    assert.equal(document.work?.[0].startDate, undefined);
+    assert.equal(document.education?.[0].startDate, "2012");
+    assert.equal(document.education?.[0].endDate, undefined);
+    assert.deepEqual(skipped, [
+      'experience "Acme" period "Summer 2019" (not a recognizable date)',
+      'education "MIT" period "2012 - Fall 2016" (not a recognizable date)',
+      'award "Prize" date "Spring 2018" (not a recognizable date)',
+    ]);
+  });
+
+  it("leaves out hidden items unless asked", () => {
+    const data = sampleData();
+    data.sections.skills.items[0].hidden = true;
+    assert.equal(toJsonResume(data).document.skills, undefined);
+    assert.equal(toJsonResume(data, { includeHidden: true }).document.skills?.length, 1);
+  });
+});
+
+describe("fromJsonResume", () => {
+  it("round-trips the exported document", () => {
+    const imported = fromJsonResume(toJsonResume(sampleData()).document, counter());
+    assert.equal(imported.basics.name, "Jane Doe");
+    assert.equal(imported.sections.experience?.[0].company, "Acme");
+    assert.equal(imported.sections.experience?.[0].period, "Jan 2020 - Present");
+    assert.equal(imported.sections.education?.[0].period, "2012 - 2016");
+    assert.equal(imported.sections.skills?.[0].name, "TypeScript");
+    assert.deepEqual(imported.unmapped, []);
+  });
+
+  it("rejects documents that are not objects", () => {
+    assert.throws(() => fromJsonResume([], counter()), /must be a JSON object/);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fromLinkedInExport, parseCsv, parseLinkedInExport } from "../src/linkedin.js";
+import { buildZip } from "./fixtures.js";
+
+function counter(): () => string {
+  let next = 0;
+  return () => `id${++next}`;
+}
+
+const POSITIONS = [
+  "Company Name,Title,Description,Location,Started On,Finished On",
+  'Acme,Developer,"Built things\n• Shipped 3x faster",Remote,Jan 2020,',
+  '"Globex, Inc.",Intern,,Berlin,Jun 2018,Aug 2018',
+].join("\r\n");
+
+describe("parseCsv", () => {
+  it("handles quoted commas, newlines and doubled quotes", () => {
+    assert.deepEqual(parseCsv('a,"b, c","say ""hi""\nthere"\r\n1,2,3\n'), [
+      ["a", "b, c", 'say "hi"\nthere'],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("drops a byte order mark and blank lines", () => {
+    assert.deepEqual(parseCsv("\uFEFFName\n\n,\nTypeScript"), [["Name"], ["TypeScript"]]);
+  });
+});
+
+describe("parseLinkedInExport", () => {
+  it("reads the known files from a ZIP archive", () => {
+    const zip = buildZip([
+      { name: "Positions.csv", content: POSITIONS },
+      { name: "Skills.csv", content: "Name\nTypeScript\n" },
+      { name: "Connections.csv", content: "First Name\nBob\n" },
+    ]);
+    const exported = parseLinkedInExport(zip, "export.zip");
+    assert.deepEqual(Object.keys(exported).sort(), ["Positions.csv", "Skills.csv"]);
+    assert.equal(exported["Positions.csv"][1]["Company Name"], "Globex, Inc.");
+  });
+
+  it("skips a notes preamble before the header", () => {
+    const csv = 'Notes:\n"Some explanation, with a comma"\n\nName,Proficiency\nGerman,NATIVE_OR_BILINGUAL\n';
+    const exported = parseLinkedInExport(Buffer.from(csv), "Languages.csv");
+    assert.deepEqual(exported["Languages.csv"], [{ Name: "German", Proficiency: "NATIVE_OR_BILINGUAL" }]);
+  });
+
+  it("rejects unknown single files and archives without export files", () => {
+    assert.throws(() => parseLinkedInExport(Buffer.from("a,b"), "Other.csv"), /not a LinkedIn export file/);
+    assert.throws(
+      () => parseLinkedInExport(buildZip([{ name: "Other.csv", content: "a" }]), "export.zip"),
+      /No LinkedIn export files found in export\.zip/
+    );
+  });
+});
+
+describe("fromLinkedInExport", () => {
+  it("maps positions, skills and languages to resume items", () => {
+    const exported = parseLinkedInExport(
+      buildZip([
+        { name: "Positions.csv", content: POSITIONS },
+        { name: "Skills.csv", content: "Name\nTypeScript\n" },
+        { name: "Languages.csv", content: "Name,Proficiency\nGerman,NATIVE_OR_BILINGUAL\n" },
+      ]),
+      "export.zip"
+    );
+    const imported = fromLinkedInExport(exported, counter());
+    const [acme, globex] = imported.sections.experience!;
+    assert.equal(acme.company, "Acme");
+    assert.equal(acme.period, "Jan 2020 - Present");
+    assert.match(acme.description, /<li><p>Shipped 3x faster<\/p><\/li>/);
+    assert.equal(globex.period, "Jun 2018 - Aug 2018");
+    assert.equal(imported.sections.skills?.[0].name, "TypeScript");
+    assert.equal(imported.sections.languages?.[0].fluency, "Native or bilingual");
+  });
+});
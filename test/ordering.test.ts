@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { reorderItems, reorderLayout } from "../src/ordering.js";
+
+const items = [
+  { id: "a", company: "Beta", period: "2016 - 2018" },
+  { id: "b", company: "Alpha", period: "Summer 2019" },
+  { id: "c", company: "Gamma", period: "Jan 2020 - Present" },
+  { id: "d", company: "Delta", period: "2018 - 2019" },
+];
+
+const ids = (list: Array<{ id: string }>) => list.map((item) => item.id);
+
+describe("reorderItems", () => {
+  it("puts listed ids first and keeps the rest in order", () => {
+    assert.deepEqual(ids(reorderItems(items, { type: "ids", ids: ["d", "b"] })), ["d", "b", "a", "c"]);
+  });
+
+  it("rejects unknown and repeated ids", () => {
+    assert.throws(() => reorderItems(items, { type: "ids", ids: ["x"] }), /Unknown id\(s\): x/);
+    assert.throws(() => reorderItems(items, { type: "ids", ids: ["a", "a"] }), /only be listed once/);
+  });
+
+  it("moves an item before or after another", () => {
+    assert.deepEqual(ids(reorderItems(items, { type: "move", id: "d", before: "a" })), ["d", "a", "b", "c"]);
+    assert.deepEqual(ids(reorderItems(items, { type: "move", id: "a", after: "c" })), ["b", "c", "a", "d"]);
+    assert.throws(() => reorderItems(items, { type: "move", id: "a" }), /exactly one of before or after/);
+    assert.throws(() => reorderItems(items, { type: "move", id: "a", before: "a" }), /relative to itself/);
+  });
+
+  it("sorts by period with ongoing first and unparseable periods last", () => {
+    assert.deepEqual(ids(reorderItems(items, { type: "sort", key: "period_desc" })), ["c", "d", "a", "b"]);
+    assert.deepEqual(ids(reorderItems(items, { type: "sort", key: "period_asc" })), ["a", "d", "c", "b"]);
+  });
+
+  it("sorts by name", () => {
+    assert.deepEqual(ids(reorderItems(items, { type: "sort", key: "name" })), ["b", "a", "d", "c"]);
+  });
+});
+
+describe("reorderLayout", () => {
+  const layout = [[["summary", "experience"], ["skills", "education"]]];
+
+  it("reorders one column by ids", () => {
+    assert.deepEqual(reorderLayout(layout, { type: "ids", page: 0, column: 1, ids: ["education"] }), [
+      [["summary", "experience"], ["education", "skills"]],
+    ]);
+    assert.throws(() => reorderLayout(layout, { type: "ids", page: 1, column: 0, ids: [] }), /does not exist/);
+  });
+
+  it("moves a section into another column", () => {
+    assert.deepEqual(reorderLayout(layout, { type: "move", id: "skills", after: "summary" }), [
+      [["summary", "skills", "experience"], ["education"]],
+    ]);
+    assert.throws(() => reorderLayout(layout, { type: "move", id: "awards", before: "summary" }), /not in the layout/);
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatPartialDate, formatPeriod, parseDate, parsePeriod } from "../src/period.js";
+
+describe("parseDate", () => {
+  it("parses the supported date forms", () => {
+    assert.deepEqual(parseDate("2022-05-01"), { year: 2022, month: 5, day: 1 });
+    assert.deepEqual(parseDate("2022-05"), { year: 2022, month: 5 });
+    assert.deepEqual(parseDate("03/2021"), { year: 2021, month: 3 });
+    assert.deepEqual(parseDate("Jan. 2020"), { year: 2020, month: 1 });
+    assert.deepEqual(parseDate("September, 2018"), { year: 2018, month: 9 });
+    assert.deepEqual(parseDate(" 2016 "), { year: 2016 });
+  });
+
+  it("returns null for text it cannot place on a calendar", () => {
+    assert.equal(parseDate("Summer 2019"), null);
+    assert.equal(parseDate("Q3 2019"), null);
+    assert.equal(parseDate("2019-13"), null);
+    assert.equal(parseDate("2019-02-32"), null);
+    assert.equal(parseDate("13/2019"), null);
+    assert.equal(parseDate(""), null);
+  });
+});
+
+describe("parsePeriod", () => {
+  it("splits ranges on the usual separators", () => {
+    assert.deepEqual(parsePeriod("Jan 2020 - Present"), { start: { year: 2020, month: 1 }, end: null, current: true });
+    assert.deepEqual(parsePeriod("2016 – 2019"), { start: { year: 2016 }, end: { year: 2019 }, current: false });
+    assert.deepEqual(parsePeriod("2016-2019"), { start: { year: 2016 }, end: { year: 2019 }, current: false });
+    assert.deepEqual(parsePeriod("03/2019 to 04/2021"), {
+      start: { year: 2019, month: 3 },
+      end: { year: 2021, month: 4 },
+      current: false,
+    });
+  });
+
+  it("does not split ISO dates on their hyphens", () => {
+    assert.deepEqual(parsePeriod("2020-05 - 2021-06"), {
+      start: { year: 2020, month: 5 },
+      end: { year: 2021, month: 6 },
+      current: false,
+    });
+    assert.deepEqual(parsePeriod("2022-05-01"), {
+      start: { year: 2022, month: 5, day: 1 },
+      end: { year: 2022, month: 5, day: 1 },
+      current: false,
+    });
+  });
+
+  it("treats a trailing separator as open-ended", () => {
+    assert.deepEqual(parsePeriod("2019 -"), { start: { year: 2019 }, end: null, current: true });
+  });
+
+  it("keeps unparseable halves as null", () => {
+    assert.deepEqual(parsePeriod("Summer 2019 - 2020"), { start: null, end: { year: 2020 }, current: false });
+    assert.deepEqual(parsePeriod("Summer 2019"), { start: null, end: null, current: false });
+    assert.deepEqual(parsePeriod(""), { start: null, end: null, current: false });
+  });
+});
+
+describe("formatting", () => {
+  it("formats ISO prefixes and display periods", () => {
+    assert.equal(formatPartialDate({ year: 2020, month: 3, day: 7 }), "2020-03-07");
+    assert.equal(formatPartialDate({ year: 2020 }), "2020");
+    assert.equal(formatPeriod("2020-03-01", undefined), "Mar 2020 - Present");
+    assert.equal(formatPeriod("2018", "2019-11"), "2018 - Nov 2019");
+    assert.equal(formatPeriod(undefined, "Summer 2019"), "Summer 2019");
+  });
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { renderResumeMarkdown, renderResumeText } from "../src/render.js";
+import type { Resume } from "../src/types.js";
+import { sampleData } from "./fixtures.js";
+
+function resume(data = sampleData()): Resume {
+  return {
+    id: "r1",
+    title: "Resume",
+    slug: "resume",
+    data,
+    visibility: "private",
+    locked: false,
+    userId: "u1",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("renderResumeMarkdown", () => {
+  it("renders the header and sections in layout order", () => {
+    const markdown = renderResumeMarkdown(resume());
+    assert.ok(markdown.startsWith("# Jane Doe\n\nEngineer\n\njane@example.com · Berlin\n"));
+    assert.match(markdown, /### Developer — Acme {2}\n_Jan 2020 - Present · Remote_/);
+    assert.match(markdown, /- Built things\n- Shipped 3x faster/);
+    assert.match(markdown, /- \*\*TypeScript\*\* \(Expert\): Node/);
+    const order = ["## Summary", "## experience", "## education", "## profiles", "## skills"].map((title) =>
+      markdown.indexOf(title)
+    );
+    assert.deepEqual([...order].sort((a, b) => a - b), order);
+  });
+
+  it("leaves out hidden sections and items and escapes Markdown", () => {
+    const data = sampleData();
+    data.basics.name = "Jane *Star* Doe";
+    data.sections.education.visible = false;
+    data.sections.skills.items[0].hidden = true;
+    const markdown = renderResumeMarkdown(resume(data));
+    assert.match(markdown, /^# Jane \\\*Star\\\* Doe/);
+    assert.doesNotMatch(markdown, /MIT|TypeScript/);
+  });
+});
+
+describe("renderResumeText", () => {
+  it("renders plain text without Markdown markup", () => {
+    const text = renderResumeText(resume());
+    assert.ok(text.startsWith("JANE DOE\nEngineer\njane@example.com | Berlin\n"));
+    assert.match(text, /EXPERIENCE\n\nDeveloper, Acme\nJan 2020 - Present \| Remote\nhttps:\/\/acme\.example/);
+    assert.doesNotMatch(text, /\*\*|##/);
+  });
+});
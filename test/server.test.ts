@@ -0,0 +1,399 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { ResumeData } from "../src/types.js";
+import { jsonResponse, resumeApi, sampleData, stubFetch, type FetchHandler } from "./fixtures.js";
+
+// The server reads its configuration once, when it is loaded
+const scratch = mkdtempSync(join(tmpdir(), "rx-server-"));
+after(() => rmSync(scratch, { recursive: true, force: true }));
+process.env.RXRESUME_HTTP_BASE_URLS = "https://allowed.example";
+process.env.RXRESUME_CONFIG = join(scratch, "config.json");
+process.env.RXRESUME_TEST_WORK_KEY = "work-key";
+process.env.RXRESUME_OUTPUT_DIR = join(scratch, "output");
+writeFileSync(
+  process.env.RXRESUME_CONFIG,
+  JSON.stringify({ profiles: { work: { baseUrl: "https://work.example", apiKeyEnv: "RXRESUME_TEST_WORK_KEY" } } })
+);
+const { createServer } = await import("../src/server.js");
+
+let cleanup: Array<() => unknown> = [];
+afterEach(async () => {
+  for (const step of cleanup.reverse()) await step();
+  cleanup = [];
+});
+
+// Connect an MCP client to a fresh server, in a session of its own
+async function connect(options: { remote: boolean } = { remote: false }): Promise<Client> {
+  const server = createServer(options);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  serverTransport.sessionId = randomUUID();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  cleanup.push(() => client.close());
+  return client;
+}
+
+function api(handler: FetchHandler = resumeApi()): string[] {
+  const stub = stubFetch(handler);
+  cleanup.push(stub.restore);
+  return stub.calls;
+}
+
+async function call(client: Client, name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  const text = (result.content as Array<{ text: string }>).map((item) => item.text).join("\n");
+  return { text, isError: result.isError === true };
+}
+
+// The resume data as the stub server now holds it
+async function stored(): Promise<ResumeData> {
+  const response = await fetch("https://rxresu.me/api/openapi/resume/r1");
+  return ((await response.json()) as { data: ResumeData }).data;
+}
+
+const puts = (calls: string[]) => calls.filter((call) => call.startsWith("PUT"));
+
+describe("metadata tools", () => {
+  it("changes only the margin and keeps the format", async () => {
+    api();
+    const client = await connect();
+    const result = await call(client, "set_page_format", { resume_id: "r1", margin: 10 });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual((await stored()).metadata.page, { margin: 10, format: "a4", options: { breakLine: true, pageNumbers: true } });
+  });
+
+  it("changes only the format and keeps the margin", async () => {
+    api();
+    const client = await connect();
+    const result = await call(client, "set_page_format", { resume_id: "r1", format: "letter" });
+    assert.equal(result.isError, false, result.text);
+    const { page } = (await stored()).metadata;
+    assert.equal(page.format, "letter");
+    assert.equal(page.margin, 18);
+  });
+
+  it("rejects set_page_format and set_theme_colors without any setting", async () => {
+    const calls = api();
+    const client = await connect();
+    assert.match((await call(client, "set_page_format", { resume_id: "r1" })).text, /provide a format and\/or margin/);
+    assert.match((await call(client, "set_theme_colors", { resume_id: "r1" })).text, /provide at least one/);
+    assert.deepEqual(puts(calls), []);
+  });
+
+  it("changes one theme colour and keeps the others", async () => {
+    api();
+    const client = await connect();
+    await call(client, "set_theme_colors", { resume_id: "r1", primary: "#1e3a8a" });
+    assert.deepEqual((await stored()).metadata.theme, { background: "#ffffff", text: "#000000", primary: "#1e3a8a" });
+  });
+
+  it("changes the typography", async () => {
+    api();
+    const client = await connect();
+    await call(client, "set_typography", { resume_id: "r1", font_size: 12 });
+    const { typography } = (await stored()).metadata;
+    assert.equal(typography.font.size, 12);
+    assert.equal(typography.font.family, "IBM Plex Serif");
+    assert.equal(typography.lineHeight, 1.5);
+  });
+});
+
+describe("dry_run", () => {
+  function previews(text: string) {
+    return (JSON.parse(text) as { dry_run: boolean; previews: Array<{ changes: Array<{ path: string; before: unknown; after: unknown }> }> })
+      .previews;
+  }
+
+  it("previews a section item update without writing it", async () => {
+    const calls = api();
+    const client = await connect();
+    const result = await call(client, "update_section_item", {
+      resume_id: "r1",
+      section: "experience",
+      item_id: "e1",
+      updates: JSON.stringify({ company: "Globex" }),
+      dry_run: true,
+    });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(previews(result.text)[0].changes, [
+      { path: "sections.experience.items[0].company", before: "Acme", after: "Globex" },
+    ]);
+    assert.deepEqual(puts(calls), []);
+    assert.equal((await stored()).sections.experience.items[0].company, "Acme");
+  });
+
+  it("previews a metadata change without writing it", async () => {
+    const calls = api();
+    const client = await connect();
+    const result = await call(client, "set_page_format", { resume_id: "r1", margin: 10, dry_run: true });
+    assert.deepEqual(previews(result.text)[0].changes, [{ path: "metadata.page.margin", before: 18, after: 10 }]);
+    assert.deepEqual(puts(calls), []);
+  });
+});
+
+describe("resources", () => {
+  function listingApi(): string[] {
+    const handler = resumeApi();
+    return api((url, init) =>
+      new URL(url).pathname.endsWith("/resume/list")
+        ? jsonResponse([{ id: "r1", name: "Resume", slug: "resume", isPublic: false, isLocked: false, createdAt: "", updatedAt: "" }])
+        : handler(url, init)
+    );
+  }
+
+  it("lists the resume list and every resume", async () => {
+    listingApi();
+    const client = await connect();
+    const { resources } = await client.listResources();
+    assert.deepEqual(
+      resources.map((resource) => [resource.uri, resource.name]),
+      [
+        ["rxresume://resumes", "resumes"],
+        ["rxresume://resume/r1", "Resume"],
+      ]
+    );
+  });
+
+  it("reads a resume and one of its sections", async () => {
+    listingApi();
+    const client = await connect();
+    const read = async (uri: string) => {
+      const [contents] = (await client.readResource({ uri })).contents as Array<{ text: string }>;
+      return JSON.parse(contents.text) as unknown;
+    };
+    assert.equal(((await read("rxresume://resume/r1")) as { data: ResumeData }).data.basics.name, "Jane Doe");
+    assert.equal(((await read("rxresume://resume/r1/section/skills")) as { items: unknown[] }).items.length, 1);
+    await assert.rejects(client.readResource({ uri: "rxresume://resume/r1/section/nope" }), /Section nope not found/);
+  });
+
+  it("notifies subscribers of the changed resume after a mutation, but not after a dry run", async () => {
+    listingApi();
+    const client = await connect();
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    for (const uri of ["rxresume://resume/r1", "rxresume://resume/r1/section/basics", "rxresume://resume/r2"]) {
+      await client.subscribeResource({ uri });
+    }
+
+    await call(client, "update_resume_basics", { resume_id: "r1", headline: "Architect", dry_run: true });
+    await client.ping();
+    assert.deepEqual(updated, []);
+
+    await call(client, "update_resume_basics", { resume_id: "r1", headline: "Architect" });
+    await client.ping();
+    assert.deepEqual(updated.sort(), ["rxresume://resume/r1", "rxresume://resume/r1/section/basics"]);
+
+    updated.length = 0;
+    await client.unsubscribeResource({ uri: "rxresume://resume/r1/section/basics" });
+    await call(client, "update_resume_basics", { resume_id: "r1", headline: "Director" });
+    await client.ping();
+    assert.deepEqual(updated, ["rxresume://resume/r1"]);
+  });
+});
+
+describe("duplicate_resume", () => {
+  // Serves r1 and lets the copy be created as r2; returns the copy's written data
+  function copyApi(): { calls: string[]; copy: () => ResumeData } {
+    const source = resumeApi();
+    let copy = sampleData();
+    const calls = api((url, init) => {
+      const path = new URL(url).pathname;
+      if (path.endsWith("/resume/create")) return jsonResponse("r2");
+      if (!path.endsWith("/resume/r2")) return source(url, init);
+      if (init.method === "PUT") {
+        copy = (JSON.parse(String(init.body)) as { data: ResumeData }).data;
+        return jsonResponse({});
+      }
+      return jsonResponse({ id: "r2", name: "Copy", slug: "copy", data: copy, isPublic: false, isLocked: false });
+    });
+    return { calls, copy: () => copy };
+  }
+
+  it("drops items by tag and by keyword and hides sections in the copy only", async () => {
+    const { calls, copy } = copyApi();
+    const client = await connect();
+    const result = await call(client, "duplicate_resume", {
+      resume_id: "r1",
+      title: "Copy",
+      drop_tags: ["NODE"],
+      drop_keywords: ["acme"],
+      hide_sections: ["education"],
+    });
+    assert.equal(result.isError, false, result.text);
+    assert.match(result.text, /Dropped 2 item\(s\)/);
+    const { sections } = copy();
+    assert.deepEqual(sections.skills.items, []);
+    assert.deepEqual(sections.experience.items, []);
+    assert.equal(sections.education.visible, false);
+    assert.equal(sections.profiles.items.length, 1);
+    assert.deepEqual(puts(calls), ["PUT /api/openapi/resume/r2"]);
+    assert.equal((await stored()).sections.experience.items.length, 1);
+  });
+
+  it("gives every item a new ID when asked", async () => {
+    const { copy } = copyApi();
+    const client = await connect();
+    await call(client, "duplicate_resume", { resume_id: "r1", title: "Copy", regenerate_ids: true });
+    const { sections } = copy();
+    const ids = [sections.experience, sections.education, sections.skills, sections.profiles].map((section) => section.items[0].id);
+    for (const id of ids) assert.ok(!["e1", "ed1", "s1", "p1"].includes(id), id);
+    assert.equal(new Set(ids).size, 4);
+  });
+
+  it("keeps item IDs by default", async () => {
+    const { copy } = copyApi();
+    const client = await connect();
+    await call(client, "duplicate_resume", { resume_id: "r1", title: "Copy" });
+    assert.equal(copy().sections.experience.items[0].id, "e1");
+  });
+});
+
+describe("add_project", () => {
+  it("saves every field it accepts", async () => {
+    api();
+    const client = await connect();
+    const { tools } = await client.listTools();
+    const params = Object.keys(tools.find((tool) => tool.name === "add_project")!.inputSchema.properties ?? {});
+    assert.deepEqual(params.sort(), ["date", "description", "dry_run", "name", "resume_id", "url"]);
+
+    await call(client, "add_project", {
+      resume_id: "r1",
+      name: "Compiler",
+      description: "<p>A toy compiler in Rust</p>",
+      date: "2021",
+      url: "https://compiler.example",
+    });
+    const [item] = (await stored()).sections.projects.items;
+    assert.equal(item.name, "Compiler");
+    assert.equal(item.description, "<p>A toy compiler in Rust</p>");
+    assert.equal(item.period, "2021");
+    assert.equal(item.website.url, "https://compiler.example");
+  });
+});
+
+describe("set_base_url", () => {
+  // Records the host and API key of every request
+  function recordRequests(): Array<{ host: string; apiKey: string | undefined }> {
+    const requests: Array<{ host: string; apiKey: string | undefined }> = [];
+    const handler = resumeApi();
+    api((url, init) => {
+      requests.push({ host: new URL(url).host, apiKey: (init.headers as Record<string, string>)["x-api-key"] });
+      return handler(url, init);
+    });
+    return requests;
+  }
+  const keysSentTo = (requests: Array<{ host: string; apiKey: string | undefined }>, host: string) => [
+    ...new Set(requests.filter((request) => request.host === host).map((request) => request.apiKey)),
+  ];
+
+  it("does not carry credentials to another instance unless asked", async () => {
+    const requests = recordRequests();
+    const client = await connect();
+    await call(client, "authenticate", { api_key: "key-a" });
+    const result = await call(client, "set_base_url", { url: "https://other.example" });
+    assert.match(result.text, /Base URL changed to: https:\/\/other\.example/);
+    assert.match(result.text, /were not carried over/);
+    assert.deepEqual(keysSentTo(requests, "other.example"), [undefined]);
+  });
+
+  it("carries credentials when asked and restores each instance's credentials on switching back", async () => {
+    const requests = recordRequests();
+    const client = await connect();
+    await call(client, "authenticate", { api_key: "key-a" });
+    assert.match((await call(client, "set_base_url", { url: "https://other.example", carry_credentials: true })).text, /Carried the credentials/);
+    assert.deepEqual(keysSentTo(requests, "other.example"), ["key-a"]);
+
+    await call(client, "authenticate", { api_key: "key-b" });
+    requests.length = 0;
+    assert.match((await call(client, "set_base_url", { url: "https://rxresu.me" })).text, /Restored the credentials/);
+    await call(client, "get_resume", { resume_id: "r1" });
+    assert.deepEqual(keysSentTo(requests, "rxresu.me"), ["key-a"]);
+
+    requests.length = 0;
+    await call(client, "set_base_url", { url: "https://other.example/" });
+    assert.deepEqual(keysSentTo(requests, "other.example"), ["key-b"]);
+  });
+
+  it("never carries a profile's credentials to another instance", async () => {
+    const requests = recordRequests();
+    const client = await connect();
+    assert.match((await call(client, "use_profile", { name: "work" })).text, /Using profile "work"/);
+    const result = await call(client, "set_base_url", { url: "https://other.example", carry_credentials: true });
+    assert.match(result.text, /come from a profile and are only used on that instance/);
+    assert.deepEqual(keysSentTo(requests, "other.example"), [undefined]);
+
+    requests.length = 0;
+    await call(client, "set_base_url", { url: "https://work.example" });
+    assert.deepEqual(keysSentTo(requests, "work.example"), ["work-key"]);
+  });
+
+  it("refuses to carry credentials over HTTP", async () => {
+    const requests = recordRequests();
+    const client = await connect({ remote: true });
+    await call(client, "authenticate", { api_key: "key-a" });
+    const result = await call(client, "set_base_url", { url: "https://allowed.example", carry_credentials: true });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /carry_credentials is not available over HTTP/);
+    assert.deepEqual(requests, []);
+  });
+
+  it("only switches to allowed instances over HTTP", async () => {
+    const requests = recordRequests();
+    const client = await connect({ remote: true });
+    const refused = await call(client, "set_base_url", { url: "http://169.254.169.254" });
+    assert.equal(refused.isError, true);
+    assert.match(refused.text, /not one of the instances this server allows/);
+    assert.deepEqual(requests, []);
+
+    const allowed = await call(client, "set_base_url", { url: "https://allowed.example" });
+    assert.equal(allowed.isError, false, allowed.text);
+    assert.deepEqual(keysSentTo(requests, "allowed.example"), [undefined]);
+  });
+});
+
+describe("export_resume_pdf", () => {
+  const pdf = "%PDF-1.4\n/Type /Page\n%%EOF";
+  function printerApi(): string[] {
+    const handler = resumeApi();
+    return api((url, init) =>
+      url.includes("/printer/")
+        ? new Response(pdf, { headers: { "content-type": "application/pdf" } })
+        : handler(url, init)
+    );
+  }
+
+  it("writes to the output directory locally and keeps existing files", async () => {
+    printerApi();
+    const client = await connect();
+    const saved = await call(client, "export_resume_pdf", { resume_id: "r1", filename: "cv" });
+    assert.equal(saved.isError, false, saved.text);
+    const path = join(process.env.RXRESUME_OUTPUT_DIR!, "cv.pdf");
+    assert.equal(readFileSync(path, "utf8"), pdf);
+    assert.match((await call(client, "export_resume_pdf", { resume_id: "r1", filename: "cv" })).text, /already exists/);
+  });
+
+  it("returns the PDF inline over HTTP and refuses to write files", async () => {
+    const calls = printerApi();
+    const client = await connect({ remote: true });
+    const result = await client.callTool({ name: "export_resume_pdf", arguments: { resume_id: "r1" } });
+    const [, resource] = result.content as Array<{ type: string; resource?: { blob: string } }>;
+    assert.equal(resource.type, "resource");
+    assert.equal(Buffer.from(resource.resource!.blob, "base64").toString(), pdf);
+
+    calls.length = 0;
+    const refused = await call(client, "export_resume_pdf", { resume_id: "r1", destination: "file", overwrite: true });
+    assert.equal(refused.isError, true);
+    assert.match(refused.text, /not available over HTTP/);
+    assert.deepEqual(calls, []);
+  });
+});
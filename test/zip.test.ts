@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { readZip } from "../src/zip.js";
+import { buildZip } from "./fixtures.js";
+
+describe("readZip", () => {
+  it("extracts the entries the filter accepts", () => {
+    const zip = buildZip([
+      { name: "Profile.csv", content: "First Name\nJane\n" },
+      { name: "Other/Ignored.csv", content: "x" },
+    ]);
+    const entries = readZip(zip, (name) => name.endsWith("Profile.csv"));
+    assert.deepEqual(
+      entries.map((entry) => [entry.name, entry.data.toString("utf8")]),
+      [["Profile.csv", "First Name\nJane\n"]]
+    );
+  });
+
+  it("rejects input that is not a ZIP archive", () => {
+    assert.throws(() => readZip(Buffer.from("short")), /file too short/);
+    assert.throws(() => readZip(Buffer.alloc(100)), /no end of central directory/);
+  });
+
+  it("rejects archives whose declared size exceeds the limit", () => {
+    const zip = buildZip([{ name: "a.csv", content: "small", declaredSize: 2_000_000 }]);
+    assert.throws(() => readZip(zip, undefined, { maxTotalSize: 1_000_000 }), /too large/);
+  });
+
+  it("stops inflating an entry that is larger than declared", () => {
+    // Highly compressible: a few kilobytes that inflate to 2 MB
+    const zip = buildZip([{ name: "bomb.csv", content: Buffer.alloc(2_000_000, "a"), declaredSize: 10 }]);
+    assert.ok(zip.length < 10_000);
+    assert.throws(() => readZip(zip, undefined, { maxTotalSize: 1_000_000 }), /too large/);
+  });
+
+  it("limits the combined size of all entries", () => {
+    const files = ["a", "b", "c"].map((name) => ({ name: `${name}.csv`, content: Buffer.alloc(400_000, name) }));
+    assert.equal(readZip(buildZip(files), undefined, { maxTotalSize: 1_200_000 }).length, 3);
+    assert.throws(() => readZip(buildZip(files), undefined, { maxTotalSize: 1_000_000 }), /too large/);
+  });
+});